@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { Fragment, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   Container,
   AppBar,
@@ -14,141 +14,448 @@ import {
   IconButton,
 } from '@mui/material';
 import BookmarkIcon from '@mui/icons-material/Bookmark';
-import { loadHdtDataset } from '@graviola/hdt-rdfjs-dataset';
-import type { HdtDataset } from '@graviola/hdt-rdfjs-dataset';
 import factory from '@rdfjs/data-model';
 import { FileUploader } from './components/FileUploader';
 import { DatasetStats } from './components/DatasetStats';
 import { ClassesList } from './components/ClassesList';
+import { ClassInstanceTable } from './components/ClassInstanceTable';
+import { ClassPropertyProfilePanel } from './components/ClassPropertyProfilePanel';
+import { ShapeInferencePanel } from './components/ShapeInferencePanel';
+import { ShaclValidationPanel } from './components/ShaclValidationPanel';
+import { PropertiesList } from './components/PropertiesList';
+import { discoverProperties } from './services/propertyDiscovery';
+import type { PropertyDiscoveryProgress, PropertyInfo } from './services/propertyDiscovery';
 import { BrowserWarning } from './components/BrowserWarning';
 import { GraphBrowser } from './components/GraphBrowser';
 import { SpecializedGraphBrowser } from './components/SpecializedGraphBrowser';
 import { FullTextSearch } from './components/FullTextSearch';
 import { BookmarkDrawer } from './components/BookmarkDrawer';
-
-interface ClassInfo {
-  uri: string;
-  instanceCount: number;
-}
+import { UrlLoader } from './components/UrlLoader';
+import { fetchWithProgress, fileNameFromUrl } from './utils/fetchWithProgress';
+import type { DownloadProgress } from './utils/fetchWithProgress';
+import { decompressWithProgress, detectCompression } from './utils/decompress';
+import { DatasetClient } from './services/datasetClient';
+import type { DatasetHandle } from './services/datasetClient';
+import { UNION_DATASET_ID, UnionDataset } from './services/datasetUnion';
+import type { OpenDataset } from './services/datasetUnion';
+import { DatasetSwitcher } from './components/DatasetSwitcher';
+import { MemoryWarningDialog } from './components/MemoryWarningDialog';
+import { estimateMemoryBudget } from './services/memoryBudget';
+import type { MemoryBudget } from './services/memoryBudget';
+import { RecentDatasets } from './components/RecentDatasets';
+import { DatasetMetadata } from './components/DatasetMetadata';
+import { NamespacesPanel } from './components/NamespacesPanel';
+import { LabelSettingsPanel } from './components/LabelSettingsPanel';
+import { buildClassHierarchy } from './services/classHierarchy';
+import { discoverTypedClasses, findDeclaredClasses } from './services/classDiscovery';
+import type { ClassInfo, TypeScanProgress } from './services/classDiscovery';
+import type { ClassHierarchy } from './services/classHierarchy';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import {
+  checkHdtMagic,
+  classifyHdtLoadError,
+  unsupportedBrowserError,
+} from './services/hdtLoadError';
+import type { HdtLoadError } from './services/hdtLoadError';
+import { RdfParseError } from './services/rdfParseError';
+import { defaultFileName, detectRdfFormat, stripCompressionExtension } from './services/rdfFormats';
+import type { RdfFormat } from './services/rdfFormats';
+import { ParseErrorPanel } from './components/ParseErrorPanel';
+import { detectWasmCapabilities } from './services/wasmCapabilities';
+import { useRecentDatasetsStore } from './stores/recentDatasetsStore';
+import { useLabelStore } from './stores/labelStore';
+import { useBrowserHistoryStore } from './stores/browserHistoryStore';
+import { useDatasetProfile } from './hooks/useDatasetProfile';
+import { buildVoidDescription } from './services/voidDescription';
+import type { VoidProgress } from './services/voidDescription';
+import { saveFile } from './utils/saveFile';
+import { hashBytes, isDatasetCached, readCachedDataset } from './services/datasetCache';
+import type { RecentDataset } from './services/datasetCache';
 
 function App() {
-  const [dataset, setDataset] = useState<HdtDataset | null>(null);
+  // Every loaded dataset keeps its own worker until closed
+  const [openDatasets, setOpenDatasets] = useState<OpenDataset[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingStats, setLoadingStats] = useState(false);
   const [loadingClasses, setLoadingClasses] = useState(false);
+  const [typeScanProgress, setTypeScanProgress] = useState<TypeScanProgress | null>(null);
+  const [properties, setProperties] = useState<PropertyInfo[] | null>(null);
+  const [propertyProgress, setPropertyProgress] = useState<PropertyDiscoveryProgress | null>(null);
+  const [voidProgress, setVoidProgress] = useState<VoidProgress | null>(null);
   const [fileName, setFileName] = useState<string | undefined>();
   const [fileSize, setFileSize] = useState<number | undefined>();
   const [totalTriples, setTotalTriples] = useState<number | null>(null);
   const [memoryUsage, setMemoryUsage] = useState<number | bigint | null>(null);
   const [classes, setClasses] = useState<ClassInfo[]>([]);
+  const [classHierarchy, setClassHierarchy] = useState<ClassHierarchy | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Probe WASM64 support once; HDT loading is blocked without it (text formats still load)
+  const [capabilities] = useState(detectWasmCapabilities);
+  const hdtSupported = capabilities.memory64;
+  const [loadError, setLoadError] = useState<{
+    error: HdtLoadError | RdfParseError;
+    fileName?: string;
+  } | null>(null);
   const [specializedView, setSpecializedView] = useState<{
     startIri: string;
     predicateIri: string;
     direction: 'in' | 'out';
   } | null>(null);
   const [activeTab, setActiveTab] = useState<'browser' | 'search'>('browser');
+  const [selectedClass, setSelectedClass] = useState<ClassInfo | null>(null);
+  const [browserOpenRequest, setBrowserOpenRequest] = useState<{ iri: string; requestId: number } | null>(null);
   const [bookmarkDrawerOpen, setBookmarkDrawerOpen] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
+  const [decompressProgress, setDecompressProgress] = useState<DownloadProgress | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  const propertyAbortRef = useRef<AbortController | null>(null);
+  const classAbortRef = useRef<AbortController | null>(null);
+  const voidAbortRef = useRef<AbortController | null>(null);
+  // Dataset URL passed via ?hdt= query parameter (read once on startup)
+  const [initialUrl] = useState(
+    () => new URLSearchParams(window.location.search).get('hdt') ?? undefined
+  );
 
-  const loadHdtFromBytes = useCallback(async (fileBytes: Uint8Array, fileName?: string) => {
-    setLoading(true);
-    setError(null);
-    setDataset(null);
+  const rememberDataset = useRecentDatasetsStore((state) => state.remember);
+  const evictDataset = useRecentDatasetsStore((state) => state.evict);
+
+  const nextDatasetIdRef = useRef(1);
+  // Pending pre-flight memory warning, resolved by the dialog buttons
+  const [memoryWarning, setMemoryWarning] = useState<{
+    budget: MemoryBudget;
+    fileName?: string;
+    resolve: (proceed: boolean) => void;
+  } | null>(null);
+
+  // Ask before loading a file whose estimated memory use is close to a limit
+  const confirmMemoryBudget = useCallback((fileLength: number, format: RdfFormat, fileName?: string) => {
+    const budget = estimateMemoryBudget(fileLength, format, capabilities);
+    if (!budget.nearLimit) return Promise.resolve(true);
+    return new Promise<boolean>((resolve) => setMemoryWarning({ budget, fileName, resolve }));
+  }, [capabilities]);
+
+  const handleMemoryWarningClose = useCallback((proceed: boolean) => {
+    memoryWarning?.resolve(proceed);
+    setMemoryWarning(null);
+  }, [memoryWarning]);
+
+  // The dataset all views query: one open dataset, or the union of all of them
+  const dataset = useMemo<DatasetHandle | null>(() => {
+    const usable = openDatasets.filter((d) => !d.failure);
+    if (activeDatasetId === UNION_DATASET_ID && usable.length > 1) {
+      return new UnionDataset(usable);
+    }
+    return usable.find((d) => d.id === activeDatasetId)?.client ?? null;
+  }, [openDatasets, activeDatasetId]);
+
+  const activeDatasetName =
+    activeDatasetId === UNION_DATASET_ID
+      ? `Union of ${openDatasets.filter((d) => !d.failure).map((d) => d.name).join(', ')}`
+      : openDatasets.find((d) => d.id === activeDatasetId)?.name;
+
+  const { profile, profiling, startProfile, cancelProfile, resetProfile } = useDatasetProfile(dataset);
+
+  // Every view resolves labels from the active dataset
+  const setLabelDataset = useLabelStore((state) => state.setDataset);
+  useEffect(() => {
+    setLabelDataset(dataset);
+  }, [dataset, setLabelDataset]);
+
+  const resetBrowserHistory = useBrowserHistoryStore((state) => state.reset);
+
+  // Results computed for one dataset are stale once another one is active
+  const resetDatasetViews = useCallback(() => {
+    // A running class discovery belongs to the previous dataset
+    classAbortRef.current?.abort();
+    classAbortRef.current = null;
+    setLoadingClasses(false);
+    setTypeScanProgress(null);
     setClasses([]);
+    setClassHierarchy(null);
+    setSelectedClass(null);
+    // A running property discovery belongs to the previous dataset
+    propertyAbortRef.current?.abort();
+    propertyAbortRef.current = null;
+    setProperties(null);
+    setPropertyProgress(null);
+    voidAbortRef.current?.abort();
+    voidAbortRef.current = null;
+    setVoidProgress(null);
+    setBrowserOpenRequest(null);
     setTotalTriples(null);
     setMemoryUsage(null);
+    setSpecializedView(null);
+    resetBrowserHistory();
+    resetProfile();
+  }, [resetProfile, resetBrowserHistory]);
+
+  // Stop scans still running for the active dataset when the app unmounts
+  useEffect(() => {
+    return () => {
+      classAbortRef.current?.abort();
+      propertyAbortRef.current?.abort();
+      voidAbortRef.current?.abort();
+    };
+  }, []);
+
+  const handleSelectDataset = useCallback((id: string) => {
+    setActiveDatasetId(id);
+    resetDatasetViews();
+  }, [resetDatasetViews]);
+
+  const handleRenameDataset = useCallback((id: string, name: string) => {
+    setOpenDatasets((prev) => prev.map((d) => (d.id === id ? { ...d, name } : d)));
+  }, []);
+
+  // Terminate the dataset's worker, freeing its memory
+  const handleCloseDataset = useCallback((id: string) => {
+    const remaining = openDatasets.filter((d) => d.id !== id);
+    const usable = remaining.filter((d) => !d.failure);
+    openDatasets.find((d) => d.id === id)?.client.dispose();
+    setOpenDatasets(remaining);
+    if (activeDatasetId === id || (activeDatasetId === UNION_DATASET_ID && usable.length < 2)) {
+      setActiveDatasetId(usable.length > 0 ? usable[usable.length - 1].id : null);
+      resetDatasetViews();
+    }
+  }, [openDatasets, activeDatasetId, resetDatasetViews]);
+
+  // Mark datasets whose worker died (e.g. out of memory) as failed. They stay
+  // in the switcher so the user sees what happened, but cannot be queried.
+  useEffect(() => {
+    const unsubscribes = openDatasets
+      .filter((d) => !d.failure)
+      .map((d) =>
+        d.client.onFailure((failure) => {
+          setOpenDatasets((prev) =>
+            prev.map((entry) => (entry.id === d.id ? { ...entry, failure: failure.message } : entry))
+          );
+          setError(`"${d.name}" stopped working: ${failure.message}`);
+          if (activeDatasetId === d.id || activeDatasetId === UNION_DATASET_ID) {
+            resetDatasetViews();
+          }
+        })
+      );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [openDatasets, activeDatasetId, resetDatasetViews]);
+
+  // confirmedLength: size already accepted by a pre-flight memory check, which
+  // is only repeated when decompression changed it. format: known up front,
+  // e.g. for a cached file, instead of being detected from the name
+  const loadDatasetFromBytes = useCallback(async (
+    sourceBytes: Uint8Array,
+    fileName?: string,
+    { confirmedLength, format: knownFormat }: { confirmedLength?: number; format?: RdfFormat } = {}
+  ) => {
+    let fileBytes = sourceBytes;
+    let fileLength = fileBytes.length;
+    // Files without a known extension are treated as HDT
+    const format = knownFormat ?? detectRdfFormat(fileName ?? '') ?? 'hdt';
+    // Cached files are stored decompressed, under the matching name
+    let cacheName = fileName ?? defaultFileName(format);
+    setLoading(true);
+    setError(null);
+    setLoadError(null);
     if (fileName) {
       setFileName(fileName);
-      setFileSize(fileBytes.length);
+      setFileSize(fileLength);
     }
 
     try {
-      // Verify file starts with HDT magic bytes
-      const hdtMagic = new TextDecoder().decode(fileBytes.slice(0, 4));
-      if (hdtMagic !== '$HDT') {
-        // Show first few bytes for debugging
-        const firstBytes = Array.from(fileBytes.slice(0, 16))
-          .map(b => `0x${b.toString(16).padStart(2, '0')}`)
-          .join(' ');
-        setError(
-          `Invalid HDT file. Expected "$HDT" magic bytes, but got: ${hdtMagic} (${firstBytes})`
-        );
+      // Unpack gzip/deflate containers before any format checks
+      const compression = detectCompression(fileBytes);
+      if (compression) {
+        try {
+          fileBytes = await decompressWithProgress(fileBytes, compression, {
+            onProgress: setDecompressProgress,
+          });
+          fileLength = fileBytes.length;
+          cacheName = stripCompressionExtension(cacheName);
+        } finally {
+          setDecompressProgress(null);
+        }
+      }
+
+      if (format === 'hdt') {
+        if (!hdtSupported) {
+          throw unsupportedBrowserError(fileLength);
+        }
+
+        // Verify file starts with HDT magic bytes
+        const magicError = checkHdtMagic(fileBytes);
+        if (magicError) {
+          throw magicError;
+        }
+      }
+
+      if (fileLength !== confirmedLength && !(await confirmMemoryBudget(fileLength, format, fileName))) {
+        // Cancelled by the user - not an error
         setFileName(undefined);
         setFileSize(undefined);
-        setLoading(false);
         return;
       }
       
-      // Load HDT dataset using the library
-      // Use BASE_URL to support GitHub Pages deployment with base path
-      const wasmPath = `${import.meta.env.BASE_URL}hdt.wasm`;
-      const ds = await loadHdtDataset(fileBytes, { wasmSource: wasmPath });
-      
-      setDataset(ds);
-    } catch (err) {
-      let errorMessage = 'Failed to load HDT file';
+      // Hash before the bytes are transferred to the worker. Only files that
+      // are not cached yet need a copy of their contents for storage.
+      let cacheEntry: { hash: string; contents?: Blob } | null = null;
+      try {
+        const hash = await hashBytes(fileBytes);
+        const cached = await isDatasetCached(hash);
+        cacheEntry = {
+          hash,
+          contents: cached ? undefined : new Blob([fileBytes as Uint8Array<ArrayBuffer>]),
+        };
+      } catch (cacheErr) {
+        console.warn('Dataset cache unavailable:', cacheErr);
+      }
       
-      if (err instanceof Error) {
-        errorMessage = err.message;
-        
-        // Decode error code -9000 format: -(9000 + b0 + (b1 << 8) + (b2 << 16) + (b3 << 24))
-        const errorCodeMatch = errorMessage.match(/Error code (-?\d+)/);
-        if (errorCodeMatch) {
-          const code = parseInt(errorCodeMatch[1], 10);
-          if (code < -9000 && code >= -9000 - 0xFFFFFFFF) {
-            // Decode the bytes from the error code
-            const encoded = -(code + 9000);
-            const b0 = encoded & 0xFF;
-            const b1 = (encoded >> 8) & 0xFF;
-            const b2 = (encoded >> 16) & 0xFF;
-            const b3 = (encoded >> 24) & 0xFF;
-            const bytes = [b0, b1, b2, b3];
-            const hexBytes = bytes.map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' ');
-            const ascii = String.fromCharCode(...bytes.map(b => b < 32 || b > 126 ? 46 : b));
-            errorMessage = `Invalid HDT file header. Expected "$HDT" but got: ${hexBytes} (${ascii}). The file may be corrupted or not an HDT file.`;
-          } else if (code === -9000) {
-            errorMessage = 'Invalid HDT file: First 4 bytes are all zeros. The file may be corrupted or empty.';
-          } else if (code === -9999) {
-            errorMessage = 'Invalid HDT file: File is too short or data length mismatch.';
-          } else if (code < 0) {
-            // Error code encodes byte position: -(bytes_read + 1)
-            const bytesRead = -(code + 1);
-            errorMessage = `HDT file parsing failed at byte ${bytesRead} of ${fileBytes.length}. The file may be corrupted.`;
-          }
+      // Load the dataset in a worker; the bytes are transferred to it,
+      // so fileBytes must not be read after this point
+      const ds = await DatasetClient.load(fileBytes, format);
+
+      // Open it next to the datasets already loaded and switch to it
+      const id = String(nextDatasetIdRef.current++);
+      setOpenDatasets((prev) => {
+        const baseName = fileName ?? 'dataset';
+        const taken = new Set(prev.map((d) => d.name));
+        let name = baseName;
+        for (let i = 2; taken.has(name); i++) {
+          name = `${baseName} (${i})`;
         }
+        return [...prev, { id, name, client: ds }];
+      });
+      setActiveDatasetId(id);
+      resetDatasetViews();
+
+      if (cacheEntry) {
+        rememberDataset(
+          { hash: cacheEntry.hash, name: cacheName, size: fileLength, format },
+          cacheEntry.contents
+        ).catch((cacheErr) => console.warn('Failed to cache dataset:', cacheErr));
       }
-      
-      setError(errorMessage);
+    } catch (err) {
+      // Keep typed load errors on screen in the diagnostics panel
+      setLoadError({
+        error: err instanceof RdfParseError ? err : classifyHdtLoadError(err, fileBytes, fileLength),
+        fileName,
+      });
       setFileName(undefined);
       setFileSize(undefined);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [rememberDataset, hdtSupported, resetDatasetViews, confirmMemoryBudget]);
 
   const handleFileUpload = useCallback(async (file: File) => {
-    const fileBytes = new Uint8Array(await file.arrayBuffer());
-    await loadHdtFromBytes(fileBytes, file.name);
-  }, [loadHdtFromBytes]);
+    // Check the budget before reading the file into memory at all
+    const format = detectRdfFormat(file.name) ?? 'hdt';
+    if (!(await confirmMemoryBudget(file.size, format, file.name))) return;
 
-  const handleLoadTestFile = useCallback(async () => {
+    let fileBytes: Uint8Array;
+    try {
+      fileBytes = new Uint8Array(await file.arrayBuffer());
+    } catch (err) {
+      // Reading a huge file can already exhaust memory
+      setLoadError({ error: classifyHdtLoadError(err, new Uint8Array(0), file.size), fileName: file.name });
+      return;
+    }
+    await loadDatasetFromBytes(fileBytes, file.name, { confirmedLength: file.size });
+  }, [loadDatasetFromBytes, confirmMemoryBudget]);
+
+  // Stream a dataset from a URL with byte-level progress, then load it
+  const handleLoadFromUrl = useCallback(async (url: string, displayName?: string) => {
+    // Don't download an HDT file that cannot be loaded
+    const name = displayName ?? fileNameFromUrl(url);
+    const format = detectRdfFormat(name) ?? 'hdt';
+    if (!hdtSupported && format === 'hdt') {
+      setLoadError({ error: unsupportedBrowserError(0), fileName: name });
+      return;
+    }
+
+    downloadAbortRef.current?.abort();
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setDownloadProgress({ loaded: 0 });
+    let confirmedLength: number | undefined;
+    try {
+      const bytes = await fetchWithProgress(url, {
+        signal: controller.signal,
+        onProgress: setDownloadProgress,
+        // Check the budget against Content-Length before downloading the body
+        onResponse: async (total) => {
+          if (total === undefined) return;
+          if (await confirmMemoryBudget(total, format, name)) {
+            confirmedLength = total;
+          } else {
+            controller.abort();
+          }
+        },
+      });
+      setDownloadProgress(null);
+      await loadDatasetFromBytes(bytes, name, { confirmedLength });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Cancelled by the user - not an error
+        return;
+      }
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to download file';
+      setError(errorMessage);
+    } finally {
+      if (downloadAbortRef.current === controller) {
+        downloadAbortRef.current = null;
+        setDownloadProgress(null);
+        setLoading(false);
+      }
+    }
+  }, [loadDatasetFromBytes, hdtSupported, confirmMemoryBudget]);
+
+  // Reopen a dataset from the browser cache
+  const handleOpenRecent = useCallback(async (entry: RecentDataset) => {
+    setLoading(true);
+    setError(null);
     try {
-      setLoading(true);
-      setError(null);
-      // Use BASE_URL to support GitHub Pages deployment with base path
-      const response = await fetch(`${import.meta.env.BASE_URL}snikmeta.hdt`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch test file: ${response.statusText}`);
+      const bytes = await readCachedDataset(entry.hash);
+      if (!bytes) {
+        await evictDataset(entry.hash);
+        throw new Error(`"${entry.name}" is no longer in the browser cache`);
       }
-      const hdtBytes = new Uint8Array(await response.arrayBuffer());
-      await loadHdtFromBytes(hdtBytes, 'snikmeta.hdt');
+      await loadDatasetFromBytes(bytes, entry.name, { format: entry.format });
     } catch (err) {
       const errorMessage =
-        err instanceof Error ? err.message : 'Failed to load test file';
+        err instanceof Error ? err.message : 'Failed to open cached dataset';
       setError(errorMessage);
       setLoading(false);
     }
-  }, [loadHdtFromBytes]);
+  }, [loadDatasetFromBytes, evictDataset]);
+
+  const handleCancelDownload = useCallback(() => {
+    downloadAbortRef.current?.abort();
+  }, []);
+
+  // Open from URL: keep ?hdt= in the address bar so the view can be shared
+  const handleOpenUrl = useCallback(async (url: string) => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('hdt', url);
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}`);
+    await handleLoadFromUrl(url);
+  }, [handleLoadFromUrl]);
+
+  const handleLoadTestFile = useCallback(async () => {
+    // Use BASE_URL to support GitHub Pages deployment with base path
+    await handleLoadFromUrl(`${import.meta.env.BASE_URL}snikmeta.hdt`, 'snikmeta.hdt');
+  }, [handleLoadFromUrl]);
+
+  // Load the dataset given via ?hdt= once on startup
+  useEffect(() => {
+    if (initialUrl) {
+      handleLoadFromUrl(initialUrl).catch(console.error);
+    }
+    return () => downloadAbortRef.current?.abort();
+  }, [initialUrl, handleLoadFromUrl]);
 
   // Load statistics on demand
   const handleLoadStats = useCallback(async () => {
@@ -159,8 +466,10 @@ function App() {
     
     try {
       // Use efficient counting via countMatches method
-      const count = dataset.countMatches(null, null, null);
-      const memory = dataset.sizeInBytes();
+      const [count, memory] = await Promise.all([
+        dataset.countMatches(null, null, null),
+        dataset.sizeInBytes(),
+      ]);
       
       setTotalTriples(count);
       setMemoryUsage(memory);
@@ -172,62 +481,182 @@ function App() {
     }
   }, [dataset]);
 
+  // Full profiling pass over all triples, with partial results shown as it runs
+  const handleProfile = useCallback(async () => {
+    setError(null);
+    try {
+      await startProfile();
+    } catch (err) {
+      console.error('Error profiling dataset:', err);
+      setError('Failed to profile dataset: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  }, [startProfile]);
+
+  // Compute VoID statistics and download them as Turtle
+  const handleExportVoid = useCallback(async () => {
+    if (!dataset) return;
+    voidAbortRef.current?.abort();
+    const controller = new AbortController();
+    voidAbortRef.current = controller;
+
+    setVoidProgress({ phase: 'triples', processed: 0, total: 0 });
+    setError(null);
+    try {
+      const title = activeDatasetName ?? 'Dataset';
+      const turtle = await buildVoidDescription(dataset, {
+        title,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) setVoidProgress(progress);
+        },
+      });
+      controller.signal.throwIfAborted();
+      const baseName = title.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+      saveFile(turtle, `${baseName}.void.ttl`, 'text/turtle');
+    } catch (err) {
+      // Cancelled, or the dataset was switched - not an error
+      if (controller.signal.aborted) return;
+      console.error('Error generating VoID description:', err);
+      setError('Failed to generate VoID description: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      if (voidAbortRef.current === controller) {
+        voidAbortRef.current = null;
+        setVoidProgress(null);
+      }
+    }
+  }, [dataset, activeDatasetName]);
+
+  const handleCancelExportVoid = useCallback(() => {
+    voidAbortRef.current?.abort();
+  }, []);
+
   // Simple class discovery - only explicitly declared classes
   const handleDiscoverClassesSimple = useCallback(async () => {
     if (!dataset) return;
-    
+    classAbortRef.current?.abort();
+    const controller = new AbortController();
+    classAbortRef.current = controller;
+
     setLoadingClasses(true);
     setError(null);
     
     try {
-      // RDF/OWL class URIs
-      const rdfsClass = factory.namedNode(
-        'http://www.w3.org/2000/01/rdf-schema#Class'
-      );
-      const owlClass = factory.namedNode(
-        'http://www.w3.org/2002/07/owl#Class'
-      );
       const rdfType = factory.namedNode(
         'http://www.w3.org/1999/02/22-rdf-syntax-ns#type'
       );
-
-      // Find all resources that are declared as rdfs:Class or owl:Class
-      const rdfsClasses = dataset.match(null, rdfType, rdfsClass);
-      const owlClasses = dataset.match(null, rdfType, owlClass);
-
-      // Collect all class URIs
-      const classUris = new Set<string>();
-      for (const quad of rdfsClasses) {
-        classUris.add(quad.subject.value);
-      }
-      for (const quad of owlClasses) {
-        classUris.add(quad.subject.value);
-      }
+      const classUris = await findDeclaredClasses(dataset);
 
       // Count instances efficiently using the countMatches method
-      const classList: ClassInfo[] = [];
-      for (const classUri of classUris) {
-        const classNode = factory.namedNode(classUri);
-        // Count instances without loading them into memory
-        const instanceCount = dataset.countMatches(null, rdfType, classNode);
-        classList.push({
+      const classList: ClassInfo[] = await Promise.all(
+        Array.from(classUris, async (classUri) => ({
           uri: classUri,
-          instanceCount,
-        });
-      }
+          // Count instances without loading them into memory
+          instanceCount: await dataset.countMatches(null, rdfType, factory.namedNode(classUri)),
+          declared: true,
+        }))
+      );
 
       // Sort by instance count (descending)
       classList.sort((a, b) => b.instanceCount - a.instanceCount);
 
+      controller.signal.throwIfAborted();
       setClasses(classList);
+      const hierarchy = await buildClassHierarchy(dataset, classList, controller.signal);
+      if (!controller.signal.aborted) setClassHierarchy(hierarchy);
     } catch (err) {
+      // Cancelled, or the dataset was switched - not an error
+      if (controller.signal.aborted) return;
       console.error('Error discovering classes:', err);
       setError('Failed to discover classes: ' + (err instanceof Error ? err.message : String(err)));
     } finally {
-      setLoadingClasses(false);
+      if (classAbortRef.current === controller) {
+        classAbortRef.current = null;
+        setLoadingClasses(false);
+      }
+    }
+  }, [dataset]);
+
+  // Heuristic discovery - every object of rdf:type, for data that never declares its classes
+  const handleDiscoverClassesByType = useCallback(async () => {
+    if (!dataset) return;
+    classAbortRef.current?.abort();
+    const controller = new AbortController();
+    classAbortRef.current = controller;
+
+    setLoadingClasses(true);
+    setError(null);
+
+    try {
+      const classList = await discoverTypedClasses(dataset, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) setTypeScanProgress(progress);
+        },
+      });
+      controller.signal.throwIfAborted();
+      setClasses(classList);
+      const hierarchy = await buildClassHierarchy(dataset, classList, controller.signal);
+      if (!controller.signal.aborted) setClassHierarchy(hierarchy);
+    } catch (err) {
+      // Cancelled, or the dataset was switched - not an error
+      if (controller.signal.aborted) return;
+      console.error('Error discovering classes:', err);
+      setError('Failed to discover classes: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      if (classAbortRef.current === controller) {
+        classAbortRef.current = null;
+        setTypeScanProgress(null);
+        setLoadingClasses(false);
+      }
+    }
+  }, [dataset]);
+
+  const handleCancelDiscoverClasses = useCallback(() => {
+    classAbortRef.current?.abort();
+  }, []);
+
+  // Every predicate in use plus declared properties, with domains, ranges and observed types
+  const handleDiscoverProperties = useCallback(async () => {
+    if (!dataset) return;
+    propertyAbortRef.current?.abort();
+    const controller = new AbortController();
+    propertyAbortRef.current = controller;
+
+    setPropertyProgress({ phase: 'predicates', processed: 0, total: 0 });
+    setError(null);
+
+    try {
+      const discovered = await discoverProperties(dataset, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) setPropertyProgress(progress);
+        },
+      });
+      if (!controller.signal.aborted) setProperties(discovered);
+    } catch (err) {
+      // Cancelled, or the dataset was switched - not an error
+      if (controller.signal.aborted) return;
+      console.error('Error discovering properties:', err);
+      setError('Failed to discover properties: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      if (propertyAbortRef.current === controller) {
+        propertyAbortRef.current = null;
+        setPropertyProgress(null);
+      }
     }
   }, [dataset]);
 
+  const handleCancelDiscoverProperties = useCallback(() => {
+    propertyAbortRef.current?.abort();
+  }, []);
+
+  // Show an IRI in the graph browser, e.g. a row of the class instance table
+  const handleOpenInBrowser = useCallback((iri: string) => {
+    setSpecializedView(null);
+    setActiveTab('browser');
+    setBrowserOpenRequest((prev) => ({ iri, requestId: (prev?.requestId ?? 0) + 1 }));
+  }, []);
+
   const handleCloseError = useCallback(() => {
     setError(null);
   }, []);
@@ -239,6 +668,13 @@ function App() {
             <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
               HDT Graph Discovery Demo
             </Typography>
+            <DatasetSwitcher
+              datasets={openDatasets}
+              activeId={activeDatasetId}
+              onSelect={handleSelectDataset}
+              onRename={handleRenameDataset}
+              onClose={handleCloseDataset}
+            />
             <IconButton
               color="inherit"
               onClick={() => setBookmarkDrawerOpen(!bookmarkDrawerOpen)}
@@ -250,32 +686,57 @@ function App() {
       </AppBar>
 
       <Container maxWidth="lg" sx={{ py: 4, mt: 8 }}>
-        <BrowserWarning />
+        <BrowserWarning capabilities={capabilities} />
 
         <Stack spacing={3}>
           <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2, flexWrap: 'wrap' }}>
             <Button
               variant="outlined"
               onClick={handleLoadTestFile}
-              disabled={loading}
+              disabled={loading || !hdtSupported}
               sx={{ minWidth: 200 }}
             >
               Load Test File (snikmeta.hdt)
             </Button>
+            <RecentDatasets onOpen={handleOpenRecent} disabled={loading} />
             <Typography variant="body2" color="text.secondary">
-              Or upload your own HDT file below
+              Or open an HDT, N-Triples, Turtle or N-Quads file from a URL or upload your own below
             </Typography>
           </Box>
 
+          <UrlLoader
+            onLoadUrl={handleOpenUrl}
+            onCancel={handleCancelDownload}
+            loading={loading}
+            progress={downloadProgress}
+            initialUrl={initialUrl}
+          />
+
+          {loadError && (loadError.error instanceof RdfParseError ? (
+            <ParseErrorPanel
+              error={loadError.error}
+              fileName={loadError.fileName}
+              onDismiss={() => setLoadError(null)}
+            />
+          ) : (
+            <DiagnosticsPanel
+              error={loadError.error}
+              fileName={loadError.fileName}
+              onDismiss={() => setLoadError(null)}
+            />
+          ))}
+
           <FileUploader
             onFileSelect={handleFileUpload}
             loading={loading}
+            progress={decompressProgress}
             fileName={fileName}
             fileSize={fileSize}
           />
 
           {dataset && (
-            <>
+            // Remount the views when switching datasets so no state carries over
+            <Fragment key={activeDatasetId}>
               <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
                 <Button
                   variant="contained"
@@ -293,17 +754,114 @@ function App() {
                 >
                   {loadingClasses ? 'Discovering...' : 'Discover Classes'}
                 </Button>
+                <Button
+                  variant="outlined"
+                  onClick={handleDiscoverClassesByType}
+                  disabled={loadingClasses}
+                  sx={{ minWidth: 200 }}
+                >
+                  {typeScanProgress
+                    ? `Scanning types${
+                        typeScanProgress.total > 0
+                          ? ` ${Math.floor((typeScanProgress.processed / typeScanProgress.total) * 100)}%`
+                          : '...'
+                      }`
+                    : 'Discover All Types'}
+                </Button>
+                {loadingClasses && (
+                  <Button variant="outlined" color="error" onClick={handleCancelDiscoverClasses}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  variant="outlined"
+                  onClick={handleDiscoverProperties}
+                  disabled={propertyProgress !== null}
+                  sx={{ minWidth: 200 }}
+                >
+                  {propertyProgress
+                    ? `Discovering properties${
+                        propertyProgress.total > 0
+                          ? ` (${propertyProgress.phase}) ${Math.floor(
+                              (propertyProgress.processed / propertyProgress.total) * 100
+                            )}%`
+                          : '...'
+                      }`
+                    : 'Discover Properties'}
+                </Button>
+                {propertyProgress && (
+                  <Button variant="outlined" color="error" onClick={handleCancelDiscoverProperties}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  variant="outlined"
+                  onClick={handleExportVoid}
+                  disabled={voidProgress !== null}
+                  sx={{ minWidth: 200 }}
+                >
+                  {voidProgress
+                    ? `Generating VoID (${voidProgress.phase})${
+                        voidProgress.total > 0
+                          ? ` ${Math.floor((voidProgress.processed / voidProgress.total) * 100)}%`
+                          : '...'
+                      }`
+                    : 'Export VoID'}
+                </Button>
+                {voidProgress && (
+                  <Button variant="outlined" color="error" onClick={handleCancelExportVoid}>
+                    Cancel
+                  </Button>
+                )}
               </Box>
               
               {totalTriples !== null && memoryUsage !== null && (
                 <DatasetStats
                   totalTriples={totalTriples}
                   memoryUsage={memoryUsage}
+                  profile={profile}
+                  profiling={profiling}
+                  onProfile={handleProfile}
+                  onCancelProfile={cancelProfile}
                 />
               )}
+
+              {dataset.header && <DatasetMetadata header={dataset.header} />}
+
+              <NamespacesPanel dataset={dataset} />
+
+              <LabelSettingsPanel />
               
+               {(classes.length > 0 || (classHierarchy?.classes.size ?? 0) > 0) && (
+                 <ClassesList
+                   classes={classes}
+                   loading={loadingClasses}
+                   hierarchy={classHierarchy}
+                   onSelectClass={setSelectedClass}
+                 />
+               )}
+
+               {(properties || propertyProgress) && (
+                 <PropertiesList properties={properties ?? []} loading={propertyProgress !== null} />
+               )}
+
+               <ShaclValidationPanel dataset={dataset} onOpenNode={handleOpenInBrowser} />
+
                {classes.length > 0 && (
-                 <ClassesList classes={classes} loading={loadingClasses} />
+                 <ShapeInferencePanel dataset={dataset} classes={classes} fileName={activeDatasetName} />
+               )}
+
+               {selectedClass && (
+                 <Fragment key={selectedClass.uri}>
+                   <ClassInstanceTable
+                     dataset={dataset}
+                     classIri={selectedClass.uri}
+                     instanceCount={selectedClass.instanceCount}
+                     onOpenInstance={handleOpenInBrowser}
+                     onClose={() => setSelectedClass(null)}
+                   />
+                   <ClassPropertyProfilePanel dataset={dataset} classIri={selectedClass.uri} />
+                 </Fragment>
                )}
                
                <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
@@ -330,6 +888,7 @@ function App() {
                    ) : (
                      <GraphBrowser
                        dataset={dataset}
+                       openRequest={browserOpenRequest}
                        onSelectPredicate={(startIri, predicateIri, direction) => {
                          setSpecializedView({
                            startIri,
@@ -343,7 +902,7 @@ function App() {
                )}
 
                {activeTab === 'search' && <FullTextSearch dataset={dataset} />}
-             </>
+            </Fragment>
            )}
          </Stack>
       </Container>
@@ -359,6 +918,14 @@ function App() {
         </Alert>
       </Snackbar>
 
+      <MemoryWarningDialog
+        budget={memoryWarning?.budget ?? null}
+        fileName={memoryWarning?.fileName}
+        openDatasetCount={openDatasets.length}
+        onConfirm={() => handleMemoryWarningClose(true)}
+        onCancel={() => handleMemoryWarningClose(false)}
+      />
+
       <BookmarkDrawer open={bookmarkDrawerOpen} onClose={() => setBookmarkDrawerOpen(false)} />
     </Box>
   );
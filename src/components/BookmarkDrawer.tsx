@@ -14,38 +14,8 @@ import BookmarkIcon from '@mui/icons-material/Bookmark';
 import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder';
 import { useBookmark } from '../hooks/useBookmark';
 import { useBookmarkStore } from '../stores/bookmarkStore';
-
-// Helper to shorten URIs for display
-function shortenUri(uri: string): string {
-  const prefixMap: Record<string, string> = {
-    'http://www.w3.org/2000/01/rdf-schema#': 'rdfs:',
-    'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf:',
-    'http://www.w3.org/2002/07/owl#': 'owl:',
-    'http://www.w3.org/2004/02/skos/core#': 'skos:',
-    'http://xmlns.com/foaf/0.1/': 'foaf:',
-    'http://schema.org/': 'schema:',
-  };
-
-  for (const [fullPrefix, shortPrefix] of Object.entries(prefixMap)) {
-    if (uri.startsWith(fullPrefix)) {
-      return uri.replace(fullPrefix, shortPrefix);
-    }
-  }
-
-  // Try to extract a reasonable short form
-  const match = uri.match(/^(.+[/#])([^/#]+)$/);
-  if (match) {
-    const [, prefix, localName] = match;
-    const parts = prefix.split('/');
-    const lastPart = parts[parts.length - 1] || parts[parts.length - 2];
-    if (lastPart) {
-      return `${lastPart}:${localName}`;
-    }
-  }
-
-  // Fallback: show last 50 chars
-  return uri.length > 50 ? `...${uri.slice(-50)}` : uri;
-}
+import { useShortenIri } from '../hooks/useShortenIri';
+import { useDisplayLabel } from '../hooks/useLabel';
 
 interface BookmarkDrawerProps {
   open: boolean;
@@ -53,6 +23,8 @@ interface BookmarkDrawerProps {
 }
 
 export function BookmarkDrawer({ open, onClose }: BookmarkDrawerProps) {
+  const shortenUri = useShortenIri();
+  const displayLabel = useDisplayLabel();
   const { bookmarks, removeBookmark } = useBookmark();
   const fillFocusedInput = useBookmarkStore((state) => state.fillFocusedInput);
 
@@ -125,7 +97,7 @@ export function BookmarkDrawer({ open, onClose }: BookmarkDrawerProps) {
                 primary={
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, flexWrap: 'wrap' }}>
                     <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                      {bookmark.label || shortenUri(bookmark.iri)}
+                      {bookmark.label || displayLabel(bookmark.iri)}
                     </Typography>
                     {bookmark.hint && (
                       <Chip
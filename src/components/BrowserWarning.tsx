@@ -1,64 +1,45 @@
 import { Alert, AlertTitle } from '@mui/material';
-import { useEffect, useState } from 'react';
+import type { WasmCapabilities } from '../services/wasmCapabilities';
+import { formatBytes } from '../utils/format';
 
-export function BrowserWarning() {
-  const [showWarning, setShowWarning] = useState(false);
-
-  useEffect(() => {
-    // Check for WASM64 support
-    // Chrome 133+, Firefox 134+ (with flag), Safari: not supported yet
-    const userAgent = navigator.userAgent;
-    const isChrome = /Chrome/.test(userAgent) && !/Edg/.test(userAgent);
-    const isFirefox = /Firefox/.test(userAgent);
-    const isSafari = /Safari/.test(userAgent) && !/Chrome/.test(userAgent);
-
-    // Try to detect WASM64 support
-    // This is a heuristic - actual support detection would require trying to instantiate WASM64
-    let needsWarning = false;
-
-    if (isSafari) {
-      needsWarning = true;
-    } else if (isFirefox) {
-      // Firefox 134+ supports WASM64 but may need a flag
-      const versionMatch = userAgent.match(/Firefox\/(\d+)/);
-      if (versionMatch) {
-        const version = parseInt(versionMatch[1], 10);
-        if (version < 134) {
-          needsWarning = true;
-        }
-      }
-    } else if (isChrome) {
-      // Chrome 133+ supports WASM64
-      const versionMatch = userAgent.match(/Chrome\/(\d+)/);
-      if (versionMatch) {
-        const version = parseInt(versionMatch[1], 10);
-        if (version < 133) {
-          needsWarning = true;
-        }
-      }
-    } else {
-      // Unknown browser - show warning
-      needsWarning = true;
-    }
-
-    setShowWarning(needsWarning);
-  }, []);
+interface BrowserWarningProps {
+  capabilities: WasmCapabilities;
+}
 
-  if (!showWarning) {
-    return null;
+export function BrowserWarning({ capabilities }: BrowserWarningProps) {
+  // Detected limits, shown in both the supported and the unsupported state
+  const limits = [
+    capabilities.maxMemory64Bytes !== undefined &&
+      `WASM64 memory limit: ${formatBytes(capabilities.maxMemory64Bytes)}`,
+    capabilities.maxMemory32Bytes !== undefined &&
+      `WASM32 memory limit: ${formatBytes(capabilities.maxMemory32Bytes)}`,
+    capabilities.jsHeapLimitBytes !== undefined &&
+      `JS heap limit: ${formatBytes(capabilities.jsHeapLimitBytes)}`,
+  ].filter(Boolean);
+
+  if (capabilities.memory64) {
+    return (
+      <Alert severity="success" variant="outlined" sx={{ mb: 3 }}>
+        WebAssembly memory64 (WASM64) is supported.
+        {limits.length > 0 && ` ${limits.join(' · ')}`}
+      </Alert>
+    );
   }
 
   return (
-    <Alert severity="warning" sx={{ mb: 3 }}>
-      <AlertTitle>Browser Compatibility</AlertTitle>
-      This application requires WASM64 support. Your browser may not be fully
-      compatible. Supported browsers:
+    <Alert severity="error" sx={{ mb: 3 }}>
+      <AlertTitle>Browser Not Supported</AlertTitle>
+      {capabilities.webAssembly
+        ? 'This browser supports WebAssembly, but not the memory64 (WASM64) extension required to load HDT files.'
+        : 'This browser does not support WebAssembly, which is required to load HDT files.'}{' '}
+      Loading HDT files is disabled; N-Triples, Turtle and N-Quads files can still be opened.
+      Browsers with WASM64 support:
       <ul style={{ marginTop: '8px', marginBottom: 0 }}>
-        <li>Chrome 133+</li>
+        <li>Chrome / Edge / Brave 133+</li>
         <li>Firefox 134+ (may require flag)</li>
         <li>Safari: Not supported yet</li>
       </ul>
+      {limits.length > 0 && `Detected: ${limits.join(' · ')}`}
     </Alert>
   );
 }
-
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import { SimpleTreeView } from '@mui/x-tree-view/SimpleTreeView';
+import { TreeItem } from '@mui/x-tree-view/TreeItem';
+import LoopIcon from '@mui/icons-material/Loop';
+import type { ClassHierarchy } from '../services/classHierarchy';
+import { useDisplayLabel } from '../hooks/useLabel';
+
+interface ClassHierarchyTreeProps {
+  hierarchy: ClassHierarchy;
+}
+
+// Item IDs are the path from the root, so a class with several superclasses
+// gets one item under each of them; newlines cannot occur inside IRIs
+const PATH_SEPARATOR = '\n';
+
+export function ClassHierarchyTree({ hierarchy }: ClassHierarchyTreeProps) {
+  const displayLabel = useDisplayLabel();
+  const [expandedItems, setExpandedItems] = useState<string[]>([]);
+  const expanded = new Set(expandedItems);
+
+  const renderClass = (iri: string, parentId: string | null, ancestors: Set<string>) => {
+    const node = hierarchy.classes.get(iri)!;
+    const itemId = parentId === null ? iri : `${parentId}${PATH_SEPARATOR}${iri}`;
+    // Stop where a cycle leads back to a class already on this path
+    const closesCycle = ancestors.has(iri);
+    const hasChildren = node.children.length > 0 && !closesCycle;
+    const path = new Set(ancestors).add(iri);
+
+    const label = (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}>
+        <Typography
+          variant="body2"
+          component="code"
+          sx={{ flexGrow: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+          title={iri}
+        >
+          {displayLabel(iri)}
+        </Typography>
+        {node.cyclic && (
+          <Tooltip title={closesCycle ? 'Cycle: this class is already above here' : 'Part of a subClassOf cycle'}>
+            <LoopIcon fontSize="small" color="warning" />
+          </Tooltip>
+        )}
+        {node.orphan && <Chip label="orphan" size="small" color="warning" variant="outlined" />}
+        {node.parents.length > 1 && (
+          <Chip label={`${node.parents.length} superclasses`} size="small" variant="outlined" />
+        )}
+        <Tooltip title="Direct instances / including subclasses">
+          <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+            {node.directCount.toLocaleString()}
+            {hasChildren && ` / ${node.transitiveCount.toLocaleString()}`}
+          </Typography>
+        </Tooltip>
+      </Box>
+    );
+
+    return (
+      <TreeItem key={itemId} itemId={itemId} label={label}>
+        {hasChildren &&
+          (expanded.has(itemId)
+            ? node.children.map((child) => renderClass(child, itemId, path))
+            : // Children are only rendered once expanded; the placeholder keeps the expand icon
+              [<TreeItem key="placeholder" itemId={`${itemId}${PATH_SEPARATOR}:placeholder`} label="..." />])}
+      </TreeItem>
+    );
+  };
+
+  return (
+    <Box sx={{ maxHeight: 600, overflow: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1, p: 1 }}>
+      <SimpleTreeView
+        expandedItems={expandedItems}
+        onExpandedItemsChange={(_, itemIds) => setExpandedItems(itemIds)}
+        sx={{ '& .MuiTreeItem-label': { width: '100%', overflow: 'hidden' } }}
+      >
+        {hierarchy.roots.map((root) => renderClass(root, null, new Set()))}
+      </SimpleTreeView>
+    </Box>
+  );
+}
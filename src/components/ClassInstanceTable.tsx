@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  IconButton,
+  TableSortLabel,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { List } from 'react-window';
+import type { RowComponentProps } from 'react-window';
+import TableChartIcon from '@mui/icons-material/TableChart';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import CloseIcon from '@mui/icons-material/Close';
+import type { DatasetHandle } from '../services/datasetClient';
+import { commonProperties, fetchInstancePage, loadInstanceRows } from '../services/classInstances';
+import type { InstanceRow, PropertyCell, PropertyColumn } from '../services/classInstances';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { resourceKey } from '../utils/resourceKey';
+
+interface ClassInstanceTableProps {
+  dataset: DatasetHandle;
+  classIri: string;
+  instanceCount: number;
+  // Called with the instance's IRI, or "_:label" for blank nodes
+  onOpenInstance: (resource: string) => void;
+  onClose: () => void;
+}
+
+// Sorting by the instance itself rather than one of the property columns
+const SUBJECT_COLUMN = '';
+const PAGE_SIZE = 200;
+const COLUMN_COUNT = 6;
+const ROW_HEIGHT = 36;
+
+interface RowProps {
+  rows: InstanceRow[];
+  columns: PropertyColumn[];
+  gridTemplate: string;
+  shortenUri: (iri: string) => string;
+  onOpenInstance: (resource: string) => void;
+}
+
+function formatCell(cell: PropertyCell | undefined, shortenUri: (iri: string) => string): string {
+  if (!cell) return '';
+  const value = cell.isIri ? shortenUri(cell.value) : cell.value;
+  return cell.count > 1 ? `${value} (+${cell.count - 1})` : value;
+}
+
+const cellSx = { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', px: 1 } as const;
+
+function InstanceRowView({
+  index,
+  style,
+  rows,
+  columns,
+  gridTemplate,
+  shortenUri,
+  onOpenInstance,
+}: RowComponentProps<RowProps>) {
+  const row = rows[index];
+  const isIri = row.subject.termType === 'NamedNode';
+  return (
+    <Box
+      style={style}
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: gridTemplate,
+        alignItems: 'center',
+        borderBottom: '1px solid',
+        borderColor: 'divider',
+        fontSize: '0.85rem',
+        '&:hover': { backgroundColor: 'action.hover' },
+      }}
+    >
+      <Box sx={{ ...cellSx, fontFamily: 'monospace' }} title={row.subject.value}>
+        {isIri ? shortenUri(row.subject.value) : resourceKey(row.subject)}
+      </Box>
+      {columns.map((column) => {
+        const cell = row.cells[column.iri];
+        return (
+          <Box key={column.iri} sx={cellSx} title={cell?.value}>
+            {formatCell(cell, shortenUri)}
+          </Box>
+        );
+      })}
+      <Box>
+        <IconButton size="small" aria-label="open in graph browser" onClick={() => onOpenInstance(resourceKey(row.subject))}>
+          <OpenInNewIcon fontSize="small" />
+        </IconButton>
+      </Box>
+    </Box>
+  );
+}
+
+export function ClassInstanceTable({
+  dataset,
+  classIri,
+  instanceCount,
+  onOpenInstance,
+  onClose,
+}: ClassInstanceTableProps) {
+  const shortenUri = useShortenIri();
+  const [rows, setRows] = useState<InstanceRow[]>([]);
+  const [columns, setColumns] = useState<PropertyColumn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' }>({
+    column: SUBJECT_COLUMN,
+    direction: 'asc',
+  });
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      const subjects = await fetchInstancePage(dataset, classIri, offset, PAGE_SIZE);
+      return loadInstanceRows(dataset, subjects);
+    },
+    [dataset, classIri]
+  );
+
+  // First page; its rows decide which properties become columns
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadPage(0)
+      .then((firstRows) => {
+        if (cancelled) return;
+        setRows(firstRows);
+        setColumns(commonProperties(firstRows, COLUMN_COUNT));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadPage]);
+
+  const handleLoadMore = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const more = await loadPage(rows.length);
+      setRows((prev) => [...prev, ...more]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSort = (column: string) => {
+    setSort((prev) => ({
+      column,
+      direction: prev.column === column && prev.direction === 'asc' ? 'desc' : 'asc',
+    }));
+  };
+
+  // Filtering and sorting apply to the instances loaded so far
+  const visibleRows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const textOf = (row: InstanceRow, column: string) =>
+      column === SUBJECT_COLUMN ? row.subject.value : (row.cells[column]?.value ?? '');
+    const filtered = needle
+      ? rows.filter(
+          (row) =>
+            row.subject.value.toLowerCase().includes(needle) ||
+            columns.some((column) => formatCell(row.cells[column.iri], shortenUri).toLowerCase().includes(needle))
+        )
+      : rows;
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const left = textOf(a, sort.column);
+      const right = textOf(b, sort.column);
+      // Rows without a value go last in either direction
+      if (!left || !right) return left ? -1 : right ? 1 : 0;
+      return sign * left.localeCompare(right, undefined, { numeric: true });
+    });
+  }, [rows, columns, filter, sort, shortenUri]);
+
+  const gridTemplate = `minmax(220px, 2fr) repeat(${columns.length}, minmax(140px, 1fr)) 40px`;
+  const minWidth = 220 + columns.length * 140 + 40;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1 }}>
+          <TableChartIcon sx={{ color: 'primary.main' }} />
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <Typography variant="h6" component="h2">
+              Instances of {shortenUri(classIri)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {rows.length.toLocaleString()} of {instanceCount.toLocaleString()} loaded
+              {filter.trim() && `, ${visibleRows.length.toLocaleString()} matching`}
+            </Typography>
+          </Box>
+          <TextField
+            size="small"
+            placeholder="Filter loaded rows"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <IconButton aria-label="close" onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            Failed to load instances: {error}
+          </Typography>
+        )}
+
+        <Box sx={{ overflowX: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+          <Box sx={{ minWidth }}>
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: gridTemplate,
+                alignItems: 'center',
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+                py: 1,
+                fontWeight: 'bold',
+                fontSize: '0.85rem',
+              }}
+            >
+              {[{ iri: SUBJECT_COLUMN, coverage: 1 }, ...columns].map((column) => (
+                <Box key={column.iri} sx={cellSx}>
+                  <Tooltip
+                    title={
+                      column.iri === SUBJECT_COLUMN
+                        ? 'Instance'
+                        : `${column.iri} (on ${Math.round(column.coverage * 100)}% of the first page)`
+                    }
+                  >
+                    <TableSortLabel
+                      active={sort.column === column.iri}
+                      direction={sort.column === column.iri ? sort.direction : 'asc'}
+                      onClick={() => handleSort(column.iri)}
+                    >
+                      {column.iri === SUBJECT_COLUMN ? 'Instance' : shortenUri(column.iri)}
+                    </TableSortLabel>
+                  </Tooltip>
+                </Box>
+              ))}
+              <Box />
+            </Box>
+            {visibleRows.length > 0 ? (
+              <List
+                rowComponent={InstanceRowView}
+                rowCount={visibleRows.length}
+                rowHeight={ROW_HEIGHT}
+                rowProps={{ rows: visibleRows, columns, gridTemplate, shortenUri, onOpenInstance }}
+                style={{ height: Math.min(480, visibleRows.length * ROW_HEIGHT) }}
+              />
+            ) : (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                {loading ? (
+                  <CircularProgress />
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    No instances
+                  </Typography>
+                )}
+              </Box>
+            )}
+          </Box>
+        </Box>
+
+        {rows.length < instanceCount && (
+          <Button size="small" onClick={handleLoadMore} disabled={loading} sx={{ mt: 1 }}>
+            {loading ? 'Loading...' : `Load ${Math.min(PAGE_SIZE, instanceCount - rows.length).toLocaleString()} more`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
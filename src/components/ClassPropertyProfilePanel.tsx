@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import type { DatasetHandle } from '../services/datasetClient';
+import {
+  averageCardinality,
+  classPropertyProfileCsv,
+  profileClassProperties,
+} from '../services/classPropertyProfile';
+import type { ClassPropertyProfile, PropertyUsage } from '../services/classPropertyProfile';
+import type { FrequencyEntry } from '../utils/frequency';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { saveFile } from '../utils/saveFile';
+
+interface ClassPropertyProfilePanelProps {
+  dataset: DatasetHandle;
+  classIri: string;
+}
+
+function objectKindSummary(usage: PropertyUsage): string {
+  const parts: string[] = [];
+  if (usage.objectKinds.iri) parts.push(`${usage.objectKinds.iri.toLocaleString()} IRI`);
+  if (usage.objectKinds.blankNode) parts.push(`${usage.objectKinds.blankNode.toLocaleString()} blank`);
+  if (usage.objectKinds.literal) parts.push(`${usage.objectKinds.literal.toLocaleString()} literal`);
+  return parts.join(', ');
+}
+
+export function ClassPropertyProfilePanel({ dataset, classIri }: ClassPropertyProfilePanelProps) {
+  const shortenUri = useShortenIri();
+  const [profile, setProfile] = useState<ClassPropertyProfile | null>(null);
+  const [profiling, setProfiling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running scan on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleProfile = useCallback(async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProfiling(true);
+    setError(null);
+    try {
+      await profileClassProperties(dataset, classIri, {
+        signal: controller.signal,
+        onProgress: (partial) => {
+          if (!controller.signal.aborted) setProfile(partial);
+        },
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error profiling class properties:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProfiling(false);
+      }
+    }
+  }, [dataset, classIri]);
+
+  const handleExport = () => {
+    if (!profile) return;
+    const localName = classIri.split(/[#/]/).filter(Boolean).pop() ?? 'class';
+    saveFile(classPropertyProfileCsv(profile), `${localName}-properties.csv`, 'text/csv');
+  };
+
+  const typeList = (entries: FrequencyEntry[], shorten: boolean) =>
+    entries.map((entry) => `${shorten ? shortenUri(entry.value) : entry.value} (${entry.count.toLocaleString()})`).join(', ');
+
+  const percent =
+    profile && profile.totalInstances > 0
+      ? Math.min(100, (profile.processedInstances / profile.totalInstances) * 100)
+      : 0;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1 }}>
+          <AssessmentIcon sx={{ color: 'primary.main' }} />
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            Property Profile of {shortenUri(classIri)}
+          </Typography>
+          {profiling ? (
+            <Button variant="outlined" color="error" size="small" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outlined" size="small" onClick={handleProfile}>
+              {profile ? 'Profile Again' : 'Profile Properties'}
+            </Button>
+          )}
+          {profile && !profiling && (
+            <Button variant="contained" size="small" onClick={handleExport}>
+              Export CSV
+            </Button>
+          )}
+        </Box>
+
+        {!profile && !profiling && (
+          <Typography variant="body2" color="text.secondary">
+            Scan every instance of this class to see which predicates they use, how many instances
+            have each one, how many values they have and what kind of objects they point to.
+          </Typography>
+        )}
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            Failed to profile properties: {error}
+          </Typography>
+        )}
+
+        {profile && (
+          <>
+            {profiling && <LinearProgress variant="determinate" value={percent} sx={{ mb: 1 }} />}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {profile.properties.length.toLocaleString()} predicates on{' '}
+              {profile.processedInstances.toLocaleString()} of {profile.totalInstances.toLocaleString()}{' '}
+              instances
+              {!profile.complete && !profiling && ' (cancelled)'}
+            </Typography>
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Predicate</TableCell>
+                    <TableCell align="right">Coverage</TableCell>
+                    <TableCell align="right">Min</TableCell>
+                    <TableCell align="right">Max</TableCell>
+                    <TableCell align="right">Avg</TableCell>
+                    <TableCell>Objects</TableCell>
+                    <TableCell>Datatypes</TableCell>
+                    <TableCell>Languages</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {profile.properties.map((usage) => (
+                    <TableRow key={usage.predicate}>
+                      <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+                        {shortenUri(usage.predicate)}
+                      </TableCell>
+                      <TableCell align="right" title={`${usage.instances.toLocaleString()} instances`}>
+                        {profile.processedInstances > 0
+                          ? `${((usage.instances / profile.processedInstances) * 100).toFixed(1)}%`
+                          : '–'}
+                      </TableCell>
+                      <TableCell align="right">{usage.minCardinality.toLocaleString()}</TableCell>
+                      <TableCell align="right">{usage.maxCardinality.toLocaleString()}</TableCell>
+                      <TableCell align="right">{averageCardinality(usage, profile).toFixed(2)}</TableCell>
+                      <TableCell>{objectKindSummary(usage)}</TableCell>
+                      <TableCell sx={{ fontSize: '0.8rem' }}>{typeList(usage.datatypes, true)}</TableCell>
+                      <TableCell sx={{ fontSize: '0.8rem' }}>{typeList(usage.languages, false)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import {
   Box,
   Card,
@@ -8,55 +9,39 @@ import {
   ListItemText,
   Chip,
   CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import LabelIcon from '@mui/icons-material/Label';
+import type { ClassHierarchy } from '../services/classHierarchy';
+import type { ClassInfo } from '../services/classDiscovery';
 import { useBookmark } from '../hooks/useBookmark';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { useResolveLabel } from '../hooks/useLabel';
 import { BookmarkChip } from './BookmarkChip';
-
-interface ClassInfo {
-  uri: string;
-  instanceCount: number;
-}
+import { ClassHierarchyTree } from './ClassHierarchyTree';
 
 interface ClassesListProps {
   classes: ClassInfo[];
   loading: boolean;
+  hierarchy?: ClassHierarchy | null;
+  onSelectClass?: (classInfo: ClassInfo) => void;
 }
 
-export function ClassesList({ classes, loading }: ClassesListProps) {
-  const { addBookmark } = useBookmark();
-  
-  const shortenUri = (uri: string): string => {
-    // Try to extract prefix:localName pattern
-    const match = uri.match(/^(.+[/#])([^/#]+)$/);
-    if (match) {
-      const [, prefix, localName] = match;
-      // Common prefixes
-      const prefixMap: Record<string, string> = {
-        'http://www.w3.org/2000/01/rdf-schema#': 'rdfs:',
-        'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf:',
-        'http://www.w3.org/2002/07/owl#': 'owl:',
-        'http://www.w3.org/2004/02/skos/core#': 'skos:',
-        'http://xmlns.com/foaf/0.1/': 'foaf:',
-      };
-
-      for (const [fullPrefix, shortPrefix] of Object.entries(prefixMap)) {
-        if (prefix === fullPrefix) {
-          return `${shortPrefix}${localName}`;
-        }
-      }
-
-      // If no known prefix, try to extract a reasonable short form
-      const parts = prefix.split('/');
-      const lastPart = parts[parts.length - 1] || parts[parts.length - 2];
-      if (lastPart) {
-        return `${lastPart}:${localName}`;
-      }
-    }
+function orphanCount(hierarchy: ClassHierarchy): number {
+  let count = 0;
+  for (const node of hierarchy.classes.values()) {
+    if (node.orphan) count++;
+  }
+  return count;
+}
 
-    // Fallback: show last 50 chars
-    return uri.length > 50 ? `...${uri.slice(-50)}` : uri;
-  };
+export function ClassesList({ classes, loading, hierarchy, onSelectClass }: ClassesListProps) {
+  const { addBookmark } = useBookmark();
+  const shortenUri = useShortenIri();
+  const resolveLabel = useResolveLabel();
+  // Without declared classes the hierarchy from rdfs:subClassOf is all there is to show
+  const [view, setView] = useState<'list' | 'hierarchy'>(classes.length > 0 ? 'list' : 'hierarchy');
 
   if (loading) {
     return (
@@ -76,7 +61,7 @@ export function ClassesList({ classes, loading }: ClassesListProps) {
     );
   }
 
-  if (classes.length === 0) {
+  if (classes.length === 0 && !hierarchy?.classes.size) {
     return (
       <Card>
         <CardContent>
@@ -108,46 +93,89 @@ export function ClassesList({ classes, loading }: ClassesListProps) {
             sx={{ ml: 2 }}
             color="primary"
           />
-        </Box>
-        <List>
-          {classes.map((classInfo, index) => (
-            <ListItem
-              key={index}
-              sx={{
-                borderBottom: '1px solid',
-                borderColor: 'divider',
-                '&:last-child': { borderBottom: 'none' },
-              }}
-              secondaryAction={
-                <BookmarkChip
-                  iri={classInfo.uri}
-                  onToggle={(isBookmarked) => {
-                    if (isBookmarked) {
-                      addBookmark(classInfo.uri, {
-                        description: `${classInfo.instanceCount.toLocaleString()} instance${classInfo.instanceCount !== 1 ? 's' : ''}`,
-                        hint: 'subject',
-                      });
-                    }
-                  }}
-                />
-              }
+          {hierarchy && (
+            <ToggleButtonGroup
+              value={view}
+              exclusive
+              size="small"
+              onChange={(_, value) => value && setView(value)}
+              sx={{ ml: 'auto' }}
             >
-              <ListItemText
-                primary={
-                  <Typography variant="body1" component="code">
-                    {shortenUri(classInfo.uri)}
-                  </Typography>
-                }
-                secondary={
-                  <Typography variant="body2" color="text.secondary">
-                    {classInfo.instanceCount.toLocaleString()} instance
-                    {classInfo.instanceCount !== 1 ? 's' : ''}
-                  </Typography>
+              <ToggleButton value="list">List</ToggleButton>
+              <ToggleButton value="hierarchy">Hierarchy</ToggleButton>
+            </ToggleButtonGroup>
+          )}
+        </Box>
+        {hierarchy && view === 'hierarchy' ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {hierarchy.classes.size.toLocaleString()} classes, {hierarchy.subClassOfCount.toLocaleString()}{' '}
+              subClassOf links, {orphanCount(hierarchy).toLocaleString()} orphans. Counts show direct
+              instances / instances including subclasses.
+            </Typography>
+            <ClassHierarchyTree hierarchy={hierarchy} />
+          </>
+        ) : (
+          <List>
+            {classes.map((classInfo, index) => (
+              <ListItem
+                key={index}
+                sx={{
+                  borderBottom: '1px solid',
+                  borderColor: 'divider',
+                  '&:last-child': { borderBottom: 'none' },
+                  ...(onSelectClass && {
+                    cursor: 'pointer',
+                    '&:hover': { backgroundColor: 'action.hover' },
+                  }),
+                }}
+                onClick={() => onSelectClass?.(classInfo)}
+                secondaryAction={
+                  <BookmarkChip
+                    iri={classInfo.uri}
+                    onToggle={(isBookmarked) => {
+                      if (isBookmarked) {
+                        addBookmark(classInfo.uri, {
+                          description: `${classInfo.instanceCount.toLocaleString()} instance${classInfo.instanceCount !== 1 ? 's' : ''}`,
+                          hint: 'subject',
+                        });
+                      }
+                    }}
+                  />
                 }
-              />
-            </ListItem>
-          ))}
-        </List>
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="body1" component="code">
+                        {shortenUri(classInfo.uri)}
+                      </Typography>
+                      {resolveLabel(classInfo.uri) && (
+                        <Typography variant="body2" color="text.secondary">
+                          {resolveLabel(classInfo.uri)}
+                        </Typography>
+                      )}
+                      {!classInfo.declared && (
+                        <Chip
+                          label="undeclared"
+                          size="small"
+                          variant="outlined"
+                          title="Used with rdf:type but not declared as rdfs:Class or owl:Class"
+                        />
+                      )}
+                    </Box>
+                  }
+                  secondary={
+                    <Typography variant="body2" color="text.secondary">
+                      {classInfo.instanceCount.toLocaleString()} instance
+                      {classInfo.instanceCount !== 1 ? 's' : ''}
+                    </Typography>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import InfoIcon from '@mui/icons-material/Info';
+import { HDT_NS, VOID_NS } from '../services/hdtHeader';
+import type { HdtHeaderInfo } from '../services/hdtHeader';
+import type { SerializedTerm } from '../services/datasetProtocol';
+import { formatBytes } from '../utils/format';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { resourceKey } from '../utils/resourceKey';
+
+interface DatasetMetadataProps {
+  header: HdtHeaderInfo;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const DCTERMS_NS = 'http://purl.org/dc/terms/';
+
+// Control information formats are written as <IRI>
+function stripBrackets(format: string): string {
+  return format.replace(/^<|>$/g, '');
+}
+
+function formatTerm(term: SerializedTerm, shortenUri: (iri: string) => string): string {
+  if (term.termType === 'NamedNode') return shortenUri(term.value);
+  if (term.termType === 'BlankNode') return resourceKey(term);
+  return term.value;
+}
+
+export function DatasetMetadata({ header }: DatasetMetadataProps) {
+  const shortenUri = useShortenIri();
+  const [showTriples, setShowTriples] = useState(false);
+
+  // Look up header values by predicate (first match wins)
+  const values = useMemo(() => {
+    const byPredicate = new Map<string, string>();
+    for (const quad of header.triples) {
+      if (!byPredicate.has(quad.predicate.value)) {
+        byPredicate.set(quad.predicate.value, quad.object.value);
+      }
+    }
+    return byPredicate;
+  }, [header]);
+
+  // The base IRI is the subject typed as hdt:Dataset
+  const baseIri = header.triples.find(
+    (quad) => quad.predicate.value === RDF_TYPE && quad.object.value === `${HDT_NS}Dataset`
+  )?.subject.value;
+
+  // Section formats hang off the hdt:dictionary / hdt:triples nodes as dcterms:format
+  const sectionFormat = (sectionPredicate: string) => {
+    const section = header.triples.find((quad) => quad.predicate.value === sectionPredicate)?.object;
+    return header.triples.find(
+      (quad) =>
+        section !== undefined &&
+        quad.subject.value === section.value &&
+        quad.predicate.value === `${DCTERMS_NS}format`
+    )?.object.value;
+  };
+
+  const asNumber = (predicate: string) => {
+    const value = values.get(predicate);
+    return value !== undefined && !Number.isNaN(Number(value))
+      ? Number(value).toLocaleString()
+      : value;
+  };
+  const asBytes = (predicate: string) => {
+    const value = values.get(predicate);
+    return value !== undefined && !Number.isNaN(Number(value))
+      ? formatBytes(Number(value))
+      : value;
+  };
+
+  const summary: Array<{ label: string; value?: string }> = [
+    { label: 'Base IRI', value: baseIri },
+    {
+      label: 'Triples',
+      value: asNumber(`${VOID_NS}triples`) ?? asNumber(`${HDT_NS}triplesnumTriples`),
+    },
+    { label: 'Distinct Subjects', value: asNumber(`${VOID_NS}distinctSubjects`) },
+    { label: 'Properties', value: asNumber(`${VOID_NS}properties`) },
+    { label: 'Distinct Objects', value: asNumber(`${VOID_NS}distinctObjects`) },
+    { label: 'Issued', value: values.get(`${DCTERMS_NS}issued`) },
+    { label: 'Publisher', value: values.get(`${DCTERMS_NS}publisher`) },
+    { label: 'HDT Format', value: shortenUri(stripBrackets(header.global.format)) },
+    {
+      label: 'Dictionary Type',
+      value: shortenUri(
+        sectionFormat(`${HDT_NS}dictionary`) ?? stripBrackets(header.dictionary?.format ?? '')
+      ),
+    },
+    { label: 'Shared Subject-Objects', value: asNumber(`${HDT_NS}dictionarynumSharedSubjectObject`) },
+    { label: 'Dictionary Mapping', value: values.get(`${HDT_NS}dictionarymapping`) },
+    { label: 'Dictionary Strings Size', value: asBytes(`${HDT_NS}dictionarysizeStrings`) },
+    { label: 'Dictionary Block Size', value: asNumber(`${HDT_NS}dictionaryblockSize`) },
+    { label: 'Triples Type', value: shortenUri(sectionFormat(`${HDT_NS}triples`) ?? '') },
+    { label: 'Triples Order', value: values.get(`${HDT_NS}triplesOrder`) },
+    { label: 'Original Size', value: asBytes(`${HDT_NS}originalSize`) },
+    { label: 'HDT Size', value: asBytes(`${HDT_NS}hdtSize`) },
+  ];
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <InfoIcon sx={{ mr: 1, color: 'primary.main' }} />
+          <Typography variant="h6" component="h2">
+            Dataset Metadata
+          </Typography>
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          {summary
+            .filter((entry) => entry.value !== undefined && entry.value !== '')
+            .map((entry) => (
+              <Box key={entry.label} sx={{ minWidth: 0 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {entry.label}
+                </Typography>
+                <Typography variant="body1" sx={{ wordBreak: 'break-all' }}>
+                  {entry.value}
+                </Typography>
+              </Box>
+            ))}
+        </Box>
+
+        <Button size="small" onClick={() => setShowTriples(!showTriples)}>
+          {showTriples ? 'Hide' : 'Show'} header triples ({header.triples.length})
+        </Button>
+        {showTriples && (
+          <Box sx={{ maxHeight: 400, overflow: 'auto', mt: 1 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Subject</TableCell>
+                  <TableCell>Predicate</TableCell>
+                  <TableCell>Object</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {header.triples.map((quad, index) => (
+                  <TableRow key={index}>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {formatTerm(quad.subject, shortenUri)}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {formatTerm(quad.predicate, shortenUri)}
+                    </TableCell>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>
+                      {formatTerm(quad.object, shortenUri)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,98 @@
-import { Box, Card, CardContent, Typography } from '@mui/material';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
 import BarChartIcon from '@mui/icons-material/BarChart';
+import type { DatasetProfile } from '../services/datasetProfile';
+import type { FrequencyEntry } from '../utils/frequency';
 
 interface DatasetStatsProps {
   totalTriples: number;
   memoryUsage: number | bigint;
+  profile?: DatasetProfile | null;
+  profiling?: boolean;
+  onProfile?: () => void;
+  onCancelProfile?: () => void;
 }
 
-export function DatasetStats({ totalTriples, memoryUsage }: DatasetStatsProps) {
+function Metric({ label, value }: { label: string; value: number }) {
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="h6" component="div">
+        {value.toLocaleString()}
+      </Typography>
+    </Box>
+  );
+}
+
+function FrequencyTable({
+  title,
+  header,
+  entries,
+  total,
+}: {
+  title: string;
+  header: string;
+  entries: FrequencyEntry[];
+  total: number;
+}) {
+  return (
+    <Box sx={{ flex: 1, minWidth: 280 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {title}
+      </Typography>
+      {entries.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          None
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{header}</TableCell>
+              <TableCell align="right">Count</TableCell>
+              <TableCell align="right">Share</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.value}>
+                <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+                  {entry.value}
+                </TableCell>
+                <TableCell align="right">{entry.count.toLocaleString()}</TableCell>
+                <TableCell align="right">
+                  {total > 0 ? `${((entry.count / total) * 100).toFixed(1)}%` : '–'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+}
+
+export function DatasetStats({
+  totalTriples,
+  memoryUsage,
+  profile,
+  profiling = false,
+  onProfile,
+  onCancelProfile,
+}: DatasetStatsProps) {
   const formatBytes = (bytes: number | bigint): string => {
     // Convert BigInt to number if needed
     const numBytes = typeof bytes === 'bigint' ? Number(bytes) : bytes;
@@ -15,14 +101,29 @@ export function DatasetStats({ totalTriples, memoryUsage }: DatasetStatsProps) {
     return `${(numBytes / (1024 * 1024)).toFixed(2)} MB`;
   };
 
+  const percent =
+    profile && profile.totalTriples > 0
+      ? Math.min(100, (profile.processedTriples / profile.totalTriples) * 100)
+      : 0;
+
   return (
     <Card>
       <CardContent>
         <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
           <BarChartIcon sx={{ mr: 1, color: 'primary.main' }} />
-          <Typography variant="h6" component="h2">
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
             Dataset Statistics
           </Typography>
+          {onProfile && !profiling && (
+            <Button variant="outlined" size="small" onClick={onProfile}>
+              {profile ? 'Profile Again' : 'Profile Dataset'}
+            </Button>
+          )}
+          {profiling && onCancelProfile && (
+            <Button variant="outlined" color="error" size="small" onClick={onCancelProfile}>
+              Cancel Profiling
+            </Button>
+          )}
         </Box>
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
           <Box>
@@ -42,8 +143,50 @@ export function DatasetStats({ totalTriples, memoryUsage }: DatasetStatsProps) {
             </Typography>
           </Box>
         </Box>
+
+        {profile && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="subtitle1" sx={{ mb: 1 }}>
+              Profile
+              {!profile.complete &&
+                ` (${profiling ? 'in progress' : 'cancelled'}: ${profile.processedTriples.toLocaleString()} of ${profile.totalTriples.toLocaleString()} triples)`}
+            </Typography>
+            {profiling && (
+              <LinearProgress variant="determinate" value={percent} sx={{ mb: 2 }} />
+            )}
+
+            <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', mb: 3 }}>
+              <Metric label="Distinct Subjects" value={profile.distinctSubjects} />
+              <Metric label="Distinct Predicates" value={profile.distinctPredicates} />
+              <Metric label="Distinct Objects" value={profile.distinctObjects} />
+              <Metric label="IRI Objects" value={profile.objectKinds.iri} />
+              <Metric label="Blank Node Objects" value={profile.objectKinds.blankNode} />
+              <Metric label="Literal Objects" value={profile.objectKinds.literal} />
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+              <FrequencyTable
+                title={`Top ${profile.topPredicates.length} Predicates`}
+                header="Predicate"
+                entries={profile.topPredicates}
+                total={profile.processedTriples}
+              />
+              <FrequencyTable
+                title="Literal Datatypes"
+                header="Datatype"
+                entries={profile.datatypes}
+                total={profile.objectKinds.literal}
+              />
+              <FrequencyTable
+                title="Language Tags"
+                header="Language"
+                entries={profile.languages}
+                total={profile.objectKinds.literal}
+              />
+            </Box>
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
 }
-
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import {
+  Button,
+  Divider,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import StorageIcon from '@mui/icons-material/Storage';
+import LayersIcon from '@mui/icons-material/Layers';
+import CheckIcon from '@mui/icons-material/Check';
+import EditIcon from '@mui/icons-material/Edit';
+import CloseIcon from '@mui/icons-material/Close';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown';
+import { UNION_DATASET_ID } from '../services/datasetUnion';
+import type { OpenDataset } from '../services/datasetUnion';
+
+interface DatasetSwitcherProps {
+  datasets: OpenDataset[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onClose: (id: string) => void;
+}
+
+export function DatasetSwitcher({
+  datasets,
+  activeId,
+  onSelect,
+  onRename,
+  onClose,
+}: DatasetSwitcherProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  if (datasets.length === 0) {
+    return null;
+  }
+
+  const isUnion = activeId === UNION_DATASET_ID;
+  // Failed datasets cannot be selected or combined
+  const usableCount = datasets.filter((d) => !d.failure).length;
+  const activeName = isUnion
+    ? `Union of ${usableCount} datasets`
+    : datasets.find((d) => d.id === activeId)?.name ?? 'Select dataset';
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) {
+      onRename(editing.id, editing.name.trim());
+    }
+    setEditing(null);
+  };
+
+  return (
+    <>
+      <Button
+        color="inherit"
+        startIcon={isUnion ? <LayersIcon /> : <StorageIcon />}
+        endIcon={<ArrowDropDownIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        sx={{ textTransform: 'none', mr: 1, maxWidth: 320 }}
+        aria-label="switch dataset"
+      >
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {activeName}
+        </span>
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => {
+          setAnchorEl(null);
+          setEditing(null);
+        }}
+        slotProps={{ paper: { sx: { minWidth: 320 } } }}
+      >
+        {datasets.map((entry) =>
+          editing?.id === entry.id ? (
+            // Keep keyboard input inside the text field instead of menu navigation
+            <MenuItem key={entry.id} disableRipple onKeyDown={(e) => e.stopPropagation()}>
+              <TextField
+                size="small"
+                autoFocus
+                fullWidth
+                value={editing.name}
+                onChange={(e) => setEditing({ id: entry.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+              />
+            </MenuItem>
+          ) : (
+            <MenuItem
+              key={entry.id}
+              selected={entry.id === activeId}
+              onClick={() => {
+                if (entry.failure) return;
+                setAnchorEl(null);
+                onSelect(entry.id);
+              }}
+            >
+              <ListItemIcon>
+                {entry.failure ? (
+                  <ErrorOutlineIcon fontSize="small" color="error" />
+                ) : (
+                  entry.id === activeId && <CheckIcon fontSize="small" />
+                )}
+              </ListItemIcon>
+              <ListItemText
+                primary={entry.name}
+                secondary={entry.failure && `Stopped: ${entry.failure}`}
+                sx={entry.failure ? { color: 'text.disabled' } : undefined}
+              />
+              <Tooltip title="Rename">
+                <IconButton
+                  size="small"
+                  aria-label="rename dataset"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditing({ id: entry.id, name: entry.name });
+                  }}
+                  sx={{ ml: 2 }}
+                >
+                  <EditIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Close dataset">
+                <IconButton
+                  edge="end"
+                  size="small"
+                  aria-label="close dataset"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClose(entry.id);
+                  }}
+                >
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </MenuItem>
+          )
+        )}
+        <Divider />
+        <MenuItem
+          selected={isUnion}
+          disabled={usableCount < 2}
+          onClick={() => {
+            setAnchorEl(null);
+            onSelect(UNION_DATASET_ID);
+          }}
+        >
+          <ListItemIcon>
+            <LayersIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText
+            primary="Union of all datasets"
+            secondary={usableCount < 2 ? 'Open a second dataset to combine them' : undefined}
+          />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { HDT_LOAD_ERROR_TITLES } from '../services/hdtLoadError';
+import type { HdtLoadError, HexDumpWindow } from '../services/hdtLoadError';
+import { formatBytes } from '../utils/format';
+
+interface DiagnosticsPanelProps {
+  error: HdtLoadError;
+  fileName?: string;
+  onDismiss: () => void;
+}
+
+const BYTES_PER_ROW = 16;
+
+// Render a classic offset | hex | ascii dump, highlighting the failing byte
+function HexDump({ dump, highlight }: { dump: HexDumpWindow; highlight?: number }) {
+  const rows: number[][] = [];
+  for (let i = 0; i < dump.bytes.length; i += BYTES_PER_ROW) {
+    rows.push(dump.bytes.slice(i, i + BYTES_PER_ROW));
+  }
+
+  return (
+    <Box
+      component="pre"
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: '0.8rem',
+        backgroundColor: 'grey.100',
+        p: 1.5,
+        borderRadius: 1,
+        overflowX: 'auto',
+        m: 0,
+      }}
+    >
+      {rows.map((row, rowIndex) => {
+        const rowOffset = dump.start + rowIndex * BYTES_PER_ROW;
+        return (
+          <Box key={rowOffset} component="div">
+            <Box component="span" sx={{ color: 'text.secondary' }}>
+              {rowOffset.toString(16).padStart(8, '0')}
+            </Box>
+            {'  '}
+            {Array.from({ length: BYTES_PER_ROW }, (_, i) => {
+              const byte = row[i];
+              const isHighlighted = rowOffset + i === highlight;
+              return (
+                <Box
+                  key={i}
+                  component="span"
+                  sx={isHighlighted ? { backgroundColor: 'error.main', color: 'error.contrastText' } : undefined}
+                >
+                  {byte !== undefined ? byte.toString(16).padStart(2, '0') : '  '}
+                  {i < BYTES_PER_ROW - 1 ? ' ' : ''}
+                </Box>
+              );
+            })}
+            {'  |'}
+            {row.map((b) => (b < 32 || b > 126 ? '.' : String.fromCharCode(b))).join('')}
+            {'|'}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+export function DiagnosticsPanel({ error, fileName, onDismiss }: DiagnosticsPanelProps) {
+  const { details } = error;
+
+  return (
+    <Card sx={{ borderLeft: 4, borderColor: 'error.main' }}>
+      <CardContent>
+        <Alert
+          severity="error"
+          action={
+            <Tooltip title="Dismiss">
+              <IconButton size="small" onClick={onDismiss} aria-label="dismiss diagnostics">
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          }
+          sx={{ mb: 2 }}
+        >
+          <AlertTitle>{HDT_LOAD_ERROR_TITLES[details.kind]}</AlertTitle>
+          {details.message}
+        </Alert>
+
+        <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', mb: 2 }}>
+          {fileName && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                File
+              </Typography>
+              <Typography variant="body1">{fileName}</Typography>
+            </Box>
+          )}
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Size
+            </Typography>
+            <Typography variant="body1">
+              {formatBytes(details.fileSize)} ({details.fileSize.toLocaleString()} bytes)
+            </Typography>
+          </Box>
+          {details.offset !== undefined && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Failing Offset
+              </Typography>
+              <Typography variant="body1">
+                {details.offset.toLocaleString()} (0x{details.offset.toString(16)})
+              </Typography>
+            </Box>
+          )}
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Error Kind
+            </Typography>
+            <Typography variant="body1" component="code">
+              {details.kind}
+            </Typography>
+          </Box>
+        </Box>
+
+        {details.hexDump && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Bytes around the failing offset
+            </Typography>
+            <HexDump dump={details.hexDump} highlight={details.offset} />
+          </Box>
+        )}
+
+        {details.suggestions.length > 0 && (
+          <Box sx={{ mb: details.originalMessage ? 2 : 0 }}>
+            <Typography variant="subtitle2">Suggested fixes</Typography>
+            <ul style={{ marginTop: '4px', marginBottom: 0 }}>
+              {details.suggestions.map((suggestion) => (
+                <li key={suggestion}>
+                  <Typography variant="body2">{suggestion}</Typography>
+                </li>
+              ))}
+            </ul>
+          </Box>
+        )}
+
+        {details.originalMessage && details.originalMessage !== details.message && (
+          <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+            Original error: {details.originalMessage}
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
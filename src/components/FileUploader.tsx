@@ -7,10 +7,15 @@ import {
   LinearProgress,
 } from '@mui/material';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import { RDF_FILE_ACCEPT, detectRdfFormat } from '../services/rdfFormats';
+import type { DownloadProgress } from '../utils/fetchWithProgress';
+import { formatBytes } from '../utils/format';
 
 interface FileUploaderProps {
   onFileSelect: (file: File) => Promise<void>;
   loading: boolean;
+  // Set while a compressed file is being unpacked
+  progress?: DownloadProgress | null;
   fileName?: string;
   fileSize?: number;
 }
@@ -18,6 +23,7 @@ interface FileUploaderProps {
 export function FileUploader({
   onFileSelect,
   loading,
+  progress,
   fileName,
   fileSize,
 }: FileUploaderProps) {
@@ -42,10 +48,10 @@ export function FileUploader({
       setIsDragging(false);
 
       const files = Array.from(e.dataTransfer.files);
-      const hdtFile = files.find((f) => f.name.endsWith('.hdt'));
+      const datasetFile = files.find((f) => detectRdfFormat(f.name) !== null);
 
-      if (hdtFile) {
-        await onFileSelect(hdtFile);
+      if (datasetFile) {
+        await onFileSelect(datasetFile);
       }
     },
     [onFileSelect]
@@ -54,7 +60,7 @@ export function FileUploader({
   const handleFileInput = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file && file.name.endsWith('.hdt')) {
+      if (file && detectRdfFormat(file.name) !== null) {
         await onFileSelect(file);
       }
       // Reset input so same file can be selected again
@@ -88,7 +94,14 @@ export function FileUploader({
     >
       {loading && (
         <Box sx={{ position: 'absolute', top: 0, left: 0, right: 0 }}>
-          <LinearProgress />
+          {progress?.total ? (
+            <LinearProgress
+              variant="determinate"
+              value={Math.min(100, (progress.loaded / progress.total) * 100)}
+            />
+          ) : (
+            <LinearProgress />
+          )}
         </Box>
       )}
 
@@ -103,6 +116,12 @@ export function FileUploader({
               {formatFileSize(fileSize)}
             </Typography>
           )}
+          {progress && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+              Decompressing… {formatBytes(progress.loaded)}
+              {progress.total !== undefined && ` of ${formatBytes(progress.total)}`}
+            </Typography>
+          )}
           <Button
             variant="outlined"
             component="label"
@@ -112,7 +131,7 @@ export function FileUploader({
             Change File
             <input
               type="file"
-              accept=".hdt"
+              accept={RDF_FILE_ACCEPT}
               hidden
               onChange={handleFileInput}
             />
@@ -122,10 +141,11 @@ export function FileUploader({
         <Box>
           <CloudUploadIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
           <Typography variant="h6" gutterBottom>
-            Drop HDT file here or click to browse
+            Drop a dataset file here or click to browse
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            Select a .hdt file to load and browse
+            Select an HDT (.hdt), N-Triples (.nt), Turtle (.ttl) or N-Quads (.nq) file to load and
+            browse; gzip or deflate compressed files (e.g. .hdt.gz) are unpacked automatically
           </Typography>
           <Button
             variant="contained"
@@ -136,7 +156,7 @@ export function FileUploader({
             Choose File
             <input
               type="file"
-              accept=".hdt"
+              accept={RDF_FILE_ACCEPT}
               hidden
               onChange={handleFileInput}
             />
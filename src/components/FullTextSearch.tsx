@@ -18,15 +18,17 @@ import {
 // @ts-ignore - FlexSearch types may not be perfect
 import FlexSearch from 'flexsearch';
 
-import type { HdtDataset } from '@graviola/hdt-rdfjs-dataset';
+import type { DatasetHandle } from '../services/datasetClient';
 import factory from '@rdfjs/data-model';
 import SearchIcon from '@mui/icons-material/Search';
 import BuildIcon from '@mui/icons-material/Build';
 import { useBookmark } from '../hooks/useBookmark';
 import { BookmarkChip } from './BookmarkChip';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { useDisplayLabel } from '../hooks/useLabel';
 
 interface FullTextSearchProps {
-  dataset: HdtDataset | null;
+  dataset: DatasetHandle | null;
 }
 
 interface SearchResult {
@@ -47,39 +49,9 @@ interface IndexedDocument {
 }
 
 
-// Helper to shorten URIs for display
-function shortenUri(uri: string): string {
-  const prefixMap: Record<string, string> = {
-    'http://www.w3.org/2000/01/rdf-schema#': 'rdfs:',
-    'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf:',
-    'http://www.w3.org/2002/07/owl#': 'owl:',
-    'http://www.w3.org/2004/02/skos/core#': 'skos:',
-    'http://xmlns.com/foaf/0.1/': 'foaf:',
-    'http://schema.org/': 'schema:',
-  };
-
-  for (const [fullPrefix, shortPrefix] of Object.entries(prefixMap)) {
-    if (uri.startsWith(fullPrefix)) {
-      return uri.replace(fullPrefix, shortPrefix);
-    }
-  }
-
-  // Try to extract a reasonable short form
-  const match = uri.match(/^(.+[/#])([^/#]+)$/);
-  if (match) {
-    const [, prefix, localName] = match;
-    const parts = prefix.split('/');
-    const lastPart = parts[parts.length - 1] || parts[parts.length - 2];
-    if (lastPart) {
-      return `${lastPart}:${localName}`;
-    }
-  }
-
-  // Fallback: show last 50 chars
-  return uri.length > 50 ? `...${uri.slice(-50)}` : uri;
-}
-
 export function FullTextSearch({ dataset }: FullTextSearchProps) {
+  const shortenUri = useShortenIri();
+  const displayLabel = useDisplayLabel();
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [index, setIndex] = useState<any>(null);
   const [indexing, setIndexing] = useState(false);
@@ -119,7 +91,7 @@ export function FullTextSearch({ dataset }: FullTextSearchProps) {
     const owlDatatypeProperty = factory.namedNode('http://www.w3.org/2002/07/owl#DatatypeProperty');
     
     // Find all subjects that are of type owl:DatatypeProperty
-    const matches = dataset.match(null, rdfType, owlDatatypeProperty);
+    const matches = await dataset.match(null, rdfType, owlDatatypeProperty);
     
     for (const quad of matches) {
       if (quad.subject.termType === 'NamedNode') {
@@ -138,7 +110,7 @@ export function FullTextSearch({ dataset }: FullTextSearchProps) {
         value: p,
       }))
     );
-  }, [dataset]);
+  }, [dataset, shortenUri]);
 
   // Initialize index
   useEffect(() => {
@@ -169,47 +141,45 @@ export function FullTextSearch({ dataset }: FullTextSearchProps) {
       let docId = 0;
       const documents: IndexedDocument[] = [];
 
-      // Query for each selected predicate
+      // Collect the first rdf:type of every subject in one paginated pass,
+      // instead of one worker round trip per indexed literal
       const rdfType = factory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#type');
+      const subjectTypes = new Map<string, string>();
+      for await (const page of dataset.iterate(null, rdfType, null)) {
+        for (const typeQuad of page) {
+          // Take first type (subjects can have multiple types)
+          if (typeQuad.object.termType === 'NamedNode' && !subjectTypes.has(typeQuad.subject.value)) {
+            subjectTypes.set(typeQuad.subject.value, typeQuad.object.value);
+          }
+        }
+      }
       
+      // Query for each selected predicate
       for (const predicateIri of selectedPredicates) {
         try {
           const predicate = factory.namedNode(predicateIri);
-          const matches = dataset.match(null, predicate, null);
-
-          for (const quad of matches) {
-            // Only index literal values
-            if (quad.object.termType === 'Literal') {
-              // Query for rdf:type of the subject
-              let subjectType: string | undefined;
-              const typeMatches = dataset.match(quad.subject, rdfType, null);
-              // Get the first type (subjects can have multiple types)
-              for (const typeQuad of typeMatches) {
-                if (typeQuad.object.termType === 'NamedNode') {
-                  subjectType = typeQuad.object.value;
-                  break; // Take first type
-                }
-              }
-              
-              const doc: IndexedDocument = {
-                id: `doc_${docId++}`,
-                subject: quad.subject.value,
-                predicate: predicateIri,
-                value: quad.object.value,
-                subjectType: subjectType,
-              };
-              documents.push(doc);
-              
-              // Add to index
-              flexIndex.add(doc.id, doc.value);
-              
-              setIndexedCount(documents.length);
-              
-              // Yield to UI every 100 documents
-              if (documents.length % 100 === 0) {
-                await new Promise(resolve => setTimeout(resolve, 0));
+
+          for await (const page of dataset.iterate(null, predicate, null)) {
+            for (const quad of page) {
+              // Only index literal values
+              if (quad.object.termType === 'Literal') {
+                const doc: IndexedDocument = {
+                  id: `doc_${docId++}`,
+                  subject: quad.subject.value,
+                  predicate: predicateIri,
+                  value: quad.object.value,
+                  subjectType: subjectTypes.get(quad.subject.value),
+                };
+                documents.push(doc);
+                
+                // Add to index
+                flexIndex.add(doc.id, doc.value);
               }
             }
+            
+            // Update progress and yield to UI after every page
+            setIndexedCount(documents.length);
+            await new Promise(resolve => setTimeout(resolve, 0));
           }
         } catch (warnErr) {
           console.warn('Warning building sub-index for predicate', predicateIri, warnErr);
@@ -307,7 +277,7 @@ export function FullTextSearch({ dataset }: FullTextSearchProps) {
                 </Typography>
                 {result.subjectType && (
                   <Chip
-                    label={shortenUri(result.subjectType)}
+                    label={displayLabel(result.subjectType)}
                     size="small"
                     variant="outlined"
                     color="secondary"
@@ -324,14 +294,14 @@ export function FullTextSearch({ dataset }: FullTextSearchProps) {
             }
             secondary={
               <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
-                {shortenUri(result.subject)}
+                {displayLabel(result.subject)}
               </Typography>
             }
           />
         </ListItem>
       );
     },
-    [results]
+    [results, shortenUri, displayLabel]
   );
 
   if (!dataset) {
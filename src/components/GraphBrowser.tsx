@@ -1,81 +1,176 @@
-import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef, forwardRef, createContext, useContext } from 'react';
 import {
   Box,
+  Breadcrumbs,
   Card,
   CardContent,
   TextField,
   Button,
   Typography,
   CircularProgress,
+  IconButton,
+  Link,
   Menu,
   MenuItem,
+  Tooltip,
 } from '@mui/material';
 import { RichTreeView } from '@mui/x-tree-view/RichTreeView';
+import { TreeItem } from '@mui/x-tree-view/TreeItem';
+import type { TreeItemProps } from '@mui/x-tree-view/TreeItem';
+import { useTreeItemModel } from '@mui/x-tree-view/hooks';
 import type { TreeViewBaseItem } from '@mui/x-tree-view/models';
-import type { HdtDataset } from '@graviola/hdt-rdfjs-dataset';
+import type { DatasetHandle } from '../services/datasetClient';
+import type { Quad } from '@rdfjs/types';
 import factory from '@rdfjs/data-model';
+import { isBlankNodeKey, resourceKey, resourceTerm } from '../utils/resourceKey';
 import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import { useBookmarkStore } from '../stores/bookmarkStore';
+import { useBrowserHistoryStore } from '../stores/browserHistoryStore';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { useDisplayLabel, useResolveLabel } from '../hooks/useLabel';
+import { LiteralLabel } from './LiteralLabel';
+import type { LiteralInfo, NodeData, NodeId, NodeType } from './graphBrowserTree';
 
 interface GraphBrowserProps {
-  dataset: HdtDataset | null;
+  dataset: DatasetHandle | null;
   onSelectPredicate?: (startIri: string, predicateIri: string, direction: 'in' | 'out') => void;
+  // Open this IRI as the root; a new requestId reopens the same IRI
+  openRequest?: { iri: string; requestId: number } | null;
 }
 
-type NodeId = string;
-type NodeType = 'root' | 'in' | 'out' | 'predicate' | 'object';
-
-interface NodeData {
-  type: NodeType;
-  iri: string;
-  predicate?: string;
-  loaded: boolean;
-  children?: NodeId[];
-  parentType?: 'in' | 'out'; // Track if predicate is under 'in' or 'out'
-  isLiteral?: boolean; // Track if this is a literal value
-  literalValue?: string; // Store literal value if it's a literal
-  // For predicates: store object info to determine if we should inline or expand
-  objectInfo?: Array<{ value: string; isLiteral: boolean }>;
-  singleLiteralValue?: string; // If predicate has single literal, store it here
-  parentNodeId?: NodeId; // Track parent node ID for unique path-based IDs
+interface ObjectInfo {
+  value: string;
+  isLiteral: boolean;
+  isBlank: boolean;
+  literal?: LiteralInfo;
+  sources?: string[];
 }
 
-// Helper to shorten URIs for display
-function shortenUri(uri: string): string {
-  const prefixMap: Record<string, string> = {
-    'http://www.w3.org/2000/01/rdf-schema#': 'rdfs:',
-    'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf:',
-    'http://www.w3.org/2002/07/owl#': 'owl:',
-    'http://www.w3.org/2004/02/skos/core#': 'skos:',
-    'http://xmlns.com/foaf/0.1/': 'foaf:',
-  };
+// Tree items, with the extra data BrowserTreeItem renders from
+interface GraphTreeItemData {
+  id: string;
+  label: string;
+  resource?: string; // Set on object items the browser can be re-rooted at
+  literal?: LiteralInfo;
+  literalPrefix?: string;
+  literalSuffix?: string;
+}
 
-  for (const [fullPrefix, shortPrefix] of Object.entries(prefixMap)) {
-    if (uri.startsWith(fullPrefix)) {
-      return uri.replace(fullPrefix, shortPrefix);
-    }
+type GraphTreeItem = TreeViewBaseItem<GraphTreeItemData>;
+
+// Identifies a literal by value, language and datatype, so "42" and "42"^^xsd:integer differ
+function literalKey({ value, language, datatype }: LiteralInfo): string {
+  return `"${value}"@${language}^^${datatype}`;
+}
+
+// A language tag matches the preferred language exactly or as a subtag, e.g. en-GB for en
+function matchesLanguage(language: string, preferred: string): boolean {
+  const tag = language.toLowerCase();
+  return tag === preferred || tag.startsWith(`${preferred}-`);
+}
+
+// Re-roots the browser at a resource; provided to the tree items
+const BrowseFromContext = createContext<((resource: string) => void) | null>(null);
+
+// Tree item that renders literals with their datatype and language, and
+// offers to continue browsing from resources
+const BrowserTreeItem = forwardRef(function BrowserTreeItem(
+  props: TreeItemProps,
+  ref: React.Ref<HTMLLIElement>
+) {
+  const item = useTreeItemModel<GraphTreeItemData>(props.itemId);
+  const browseFrom = useContext(BrowseFromContext);
+  const literal = item?.literal;
+  const resource = item?.resource;
+
+  let label = props.label;
+  if (literal) {
+    label = <LiteralLabel {...literal} prefix={item.literalPrefix} suffix={item.literalSuffix} />;
+  } else if (resource && browseFrom) {
+    label = (
+      <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+        <Box component="span" sx={{ flexGrow: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {props.label}
+        </Box>
+        <Tooltip title="Browse from here">
+          <IconButton
+            size="small"
+            aria-label="browse from here"
+            onClick={(e) => {
+              // Keep the click from toggling the tree item
+              e.stopPropagation();
+              browseFrom(resource);
+            }}
+            sx={{ p: 0.25 }}
+          >
+            <OpenInNewIcon fontSize="inherit" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+    );
   }
+  return <TreeItem {...props} ref={ref} label={label} />;
+});
 
-  // Try to extract a reasonable short form
-  const match = uri.match(/^(.+[/#])([^/#]+)$/);
-  if (match) {
-    const [, prefix, localName] = match;
-    const parts = prefix.split('/');
-    const lastPart = parts[parts.length - 1] || parts[parts.length - 2];
-    if (lastPart) {
-      return `${lastPart}:${localName}`;
-    }
+// Breadcrumbs shown before older ones collapse into an ellipsis
+const MAX_BREADCRUMBS = 8;
+
+interface PredicateInfo {
+  predicate: string;
+  count: number;
+  sources?: string[];
+}
+
+// Values fetched per predicate node before "load more" is offered
+const PAGE_SIZE = 100;
+
+// Suffixes of the pseudo-items that fetch more values of a predicate node
+const LOAD_MORE_SUFFIX = ':load-more';
+const LOAD_ALL_SUFFIX = ':load-all';
+
+// Add a quad's source dataset to the set collected for a key
+function addSource(sourcesByKey: Map<string, Set<string>>, key: string, source: string | undefined) {
+  let sources = sourcesByKey.get(key);
+  if (!sources) {
+    sources = new Set();
+    sourcesByKey.set(key, sources);
   }
+  if (source) sources.add(source);
+}
 
-  // Fallback: show last 60 chars
-  return uri.length > 60 ? `...${uri.slice(-60)}` : uri;
+function sourceList(sources: Set<string> | undefined): string[] | undefined {
+  return sources && sources.size > 0 ? Array.from(sources).sort() : undefined;
 }
 
-export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps) {
-  const [rootIri, setRootIri] = useState('');
-  const [nodes, setNodes] = useState<Map<NodeId, NodeData>>(new Map());
+// Label suffix naming the source datasets in the union view
+function formatSources(sources: string[] | undefined): string {
+  return sources ? `  [${sources.join(', ')}]` : '';
+}
+
+export function GraphBrowser({ dataset, onSelectPredicate, openRequest }: GraphBrowserProps) {
+  const shortenUri = useShortenIri();
+  const resolveLabel = useResolveLabel();
+  const displayLabel = useDisplayLabel();
+  // Visited roots; the entry at historyIndex is the one shown
+  const history = useBrowserHistoryStore((state) => state.entries);
+  const historyIndex = useBrowserHistoryStore((state) => state.index);
+  const pushHistory = useBrowserHistoryStore((state) => state.push);
+  const goToHistory = useBrowserHistoryStore((state) => state.goTo);
+  const saveTree = useBrowserHistoryStore((state) => state.saveTree);
+  // A remounted browser continues with the tree it showed last
+  const [rootIri, setRootIri] = useState(() => history[historyIndex]?.iri ?? '');
+  const [nodes, setNodes] = useState<Map<NodeId, NodeData>>(
+    () => history[historyIndex]?.tree?.nodes ?? new Map()
+  );
   const [loading, setLoading] = useState(false);
-  const [expandedItems, setExpandedItems] = useState<string[]>([]);
+  const [expandedItems, setExpandedItems] = useState<string[]>(
+    () => history[historyIndex]?.tree?.expandedItems ?? []
+  );
+  // Empty shows literals in all languages
+  const [preferredLanguage, setPreferredLanguage] = useState('');
   const [contextMenu, setContextMenu] = useState<{
     mouseX: number;
     mouseY: number;
@@ -142,97 +237,148 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
     return parentNodeId ? `${parentNodeId}->${baseId}` : baseId;
   }, []);
 
-  // Load outgoing predicates for a node
-  const loadOutgoingPredicates = useCallback(
-    async (iri: string): Promise<string[]> => {
-      if (!dataset) return [];
-
-      const subject = factory.namedNode(iri);
-      const matches = dataset.match(subject, null, null);
-      
-      const predicates = new Set<string>();
-      for (const quad of matches) {
-        predicates.add(quad.predicate.value);
-      }
-
-      return Array.from(predicates).sort();
-    },
+  // Source dataset of a quad; only the union view tags quads with one
+  const sourceOf = useCallback(
+    (quad: Quad): string | undefined => dataset?.sourceName?.(quad.graph),
     [dataset]
   );
 
-  // Load incoming predicates for a node
-  const loadIncomingPredicates = useCallback(
-    async (iri: string): Promise<string[]> => {
+  // Predicates of a node with their triple counts, counted by the dataset
+  // rather than by fetching every triple
+  const loadPredicates = useCallback(
+    async (iri: string, direction: 'in' | 'out'): Promise<PredicateInfo[]> => {
       if (!dataset) return [];
 
-      const object = factory.namedNode(iri);
-      const matches = dataset.match(null, null, object);
-      
-      const predicates = new Set<string>();
-      for (const quad of matches) {
-        predicates.add(quad.predicate.value);
-      }
-
-      return Array.from(predicates).sort();
+      const resource = resourceTerm(iri);
+      const counts =
+        direction === 'out'
+          ? await dataset.countPredicates(resource, null)
+          : await dataset.countPredicates(null, resource);
+      return counts
+        .map(({ value, count, sources }) => ({ predicate: value, count, sources }))
+        .sort((a, b) => a.predicate.localeCompare(b.predicate));
     },
     [dataset]
   );
 
-  // Load objects for a predicate (returns both IRIs and literals with metadata)
+  // Load a page of objects for a predicate (returns both IRIs and literals with metadata);
+  // an undefined limit loads everything from the offset on
   const loadObjects = useCallback(
     async (
       subjectIri: string,
       predicateIri: string,
-      limit: number = 100
-    ): Promise<Array<{ value: string; isLiteral: boolean }>> => {
+      offset: number = 0,
+      limit: number | undefined = PAGE_SIZE
+    ): Promise<ObjectInfo[]> => {
       if (!dataset) return [];
 
-      const subject = factory.namedNode(subjectIri);
+      const subject = resourceTerm(subjectIri);
       const predicate = factory.namedNode(predicateIri);
-      const matches = dataset.match(subject, predicate, null);
+      const matches = await dataset.match(subject, predicate, null, { offset, limit });
       
-      const objects: Array<{ value: string; isLiteral: boolean }> = [];
-      let count = 0;
+      // The union can return the same object once per source; merge those
+      const objects = new Map<string, Omit<ObjectInfo, 'sources'>>();
+      const sources = new Map<string, Set<string>>();
       for (const quad of matches) {
-        if (count >= limit) break;
-        // Include both named nodes and literals
-        if (quad.object.termType === 'NamedNode' || quad.object.termType === 'Literal') {
-          objects.push({
+        // Include named nodes, blank nodes and literals
+        if (quad.object.termType === 'Literal') {
+          const literal = {
             value: quad.object.value,
-            isLiteral: quad.object.termType === 'Literal',
+            datatype: quad.object.datatype.value,
+            language: quad.object.language,
+          };
+          const key = `Literal:${literalKey(literal)}`;
+          objects.set(key, { value: literal.value, isLiteral: true, isBlank: false, literal });
+          addSource(sources, key, sourceOf(quad));
+        } else if (quad.object.termType === 'NamedNode' || quad.object.termType === 'BlankNode') {
+          const key = `${quad.object.termType}:${quad.object.value}`;
+          objects.set(key, {
+            value: resourceKey(quad.object),
+            isLiteral: false,
+            isBlank: quad.object.termType === 'BlankNode',
           });
+          addSource(sources, key, sourceOf(quad));
         }
-        count++;
       }
 
-      return objects;
+      return Array.from(objects, ([key, object]) => ({
+        ...object,
+        sources: sourceList(sources.get(key)),
+      }));
     },
-    [dataset]
+    [dataset, sourceOf]
   );
 
-  // Load subjects for a predicate (incoming) - subjects are always NamedNodes
+  // Load a page of subjects for a predicate (incoming) - named nodes or blank nodes
   const loadSubjects = useCallback(
-    async (objectIri: string, predicateIri: string, limit: number = 100): Promise<string[]> => {
+    async (
+      objectIri: string,
+      predicateIri: string,
+      offset: number = 0,
+      limit: number | undefined = PAGE_SIZE
+    ): Promise<Array<{ iri: string; sources?: string[] }>> => {
       if (!dataset) return [];
 
-      const object = factory.namedNode(objectIri);
+      const object = resourceTerm(objectIri);
       const predicate = factory.namedNode(predicateIri);
-      const matches = dataset.match(null, predicate, object);
+      const matches = await dataset.match(null, predicate, object, { offset, limit });
       
-      const subjects: string[] = [];
-      let count = 0;
+      const subjects = new Map<string, Set<string>>();
       for (const quad of matches) {
-        if (count >= limit) break;
-        // Only include named nodes (subjects are always resources)
-        if (quad.subject.termType === 'NamedNode') {
-          subjects.push(quad.subject.value);
+        // Only include resources, keyed like the other nodes of the tree
+        if (quad.subject.termType === 'NamedNode' || quad.subject.termType === 'BlankNode') {
+          addSource(subjects, resourceKey(quad.subject), sourceOf(quad));
         }
-        count++;
       }
 
-      return subjects;
+      return Array.from(subjects, ([iri, sources]) => ({ iri, sources: sourceList(sources) }));
     },
-    [dataset]
+    [dataset, sourceOf]
+  );
+
+  // Fetch a page of a predicate node's values as object nodes, in display order
+  const loadValueNodes = useCallback(
+    async (
+      node: NodeData,
+      nodeId: NodeId,
+      offset: number,
+      limit: number | undefined
+    ): Promise<Map<NodeId, NodeData>> => {
+      const valueNodes = new Map<NodeId, NodeData>();
+      if (!node.predicate) return valueNodes;
+
+      if (node.parentType === 'out') {
+        // Objects can be IRIs, blank nodes or literals
+        for (const obj of await loadObjects(node.iri, node.predicate, offset, limit)) {
+          const objectKey = obj.literal ? literalKey(obj.literal) : obj.value;
+          valueNodes.set(getNodeId('object', objectKey, undefined, nodeId), {
+            type: 'object',
+            iri: obj.value,
+            loaded: false,
+            isLiteral: obj.isLiteral,
+            isBlank: obj.isBlank,
+            literal: obj.literal,
+            parentNodeId: nodeId,
+            sources: obj.sources,
+          });
+        }
+      } else {
+        // Subjects are never literals, so always expandable
+        for (const { iri, sources } of await loadSubjects(node.iri, node.predicate, offset, limit)) {
+          valueNodes.set(getNodeId('object', iri, undefined, nodeId), {
+            type: 'object',
+            iri,
+            loaded: false,
+            isLiteral: false,
+            isBlank: isBlankNodeKey(iri),
+            parentNodeId: nodeId,
+            sources,
+          });
+        }
+      }
+      return valueNodes;
+    },
+    [getNodeId, loadObjects, loadSubjects]
   );
 
   // Load children for a node when expanded
@@ -278,10 +424,11 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
           });
 
           children.push(inNodeId, outNodeId);
-        } else if (node.type === 'out') {
-          // Out node: load all outgoing predicates
-          const predicates = await loadOutgoingPredicates(node.iri);
-          for (const predicate of predicates) {
+        } else if (node.type === 'out' || (node.type === 'object' && node.isBlank)) {
+          // Out node: load all outgoing predicates. Blank node objects skip the In/Out
+          // level and show their predicates directly, as a nested structure
+          const predicates = await loadPredicates(node.iri, 'out');
+          for (const { predicate, count, sources } of predicates) {
             const predicateNodeId = getNodeId('predicate', node.iri, predicate, nodeId);
             newNodes.set(predicateNodeId, {
               type: 'predicate',
@@ -290,13 +437,15 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
               loaded: false,
               parentType: 'out',
               parentNodeId: nodeId,
+              totalCount: count,
+              sources,
             });
             children.push(predicateNodeId);
           }
         } else if (node.type === 'in') {
           // In node: load all incoming predicates
-          const predicates = await loadIncomingPredicates(node.iri);
-          for (const predicate of predicates) {
+          const predicates = await loadPredicates(node.iri, 'in');
+          for (const { predicate, count, sources } of predicates) {
             const predicateNodeId = getNodeId('predicate', node.iri, predicate, nodeId);
             newNodes.set(predicateNodeId, {
               type: 'predicate',
@@ -305,88 +454,34 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
               loaded: false,
               parentType: 'in',
               parentNodeId: nodeId,
+              totalCount: count,
+              sources,
             });
             children.push(predicateNodeId);
           }
         } else if (node.type === 'predicate') {
-          // Predicate node: load objects (for out) or subjects (for in)
+          // Predicate node: load the first page of objects (for out) or subjects (for in)
           if (node.iri && node.predicate) {
-            const isOutgoing = node.parentType === 'out';
-            
-            if (isOutgoing) {
-              // Load objects (can be IRIs or literals)
-              const objects = await loadObjects(node.iri, node.predicate);
-              
-              // Check if all objects are literals
-              const allLiterals = objects.every(obj => obj.isLiteral);
-              
-              if (allLiterals && objects.length === 1) {
-                // Single literal: store it inline, no children
-                newNodes.set(nodeId, {
-                  ...node,
-                  loaded: true,
-                  singleLiteralValue: objects[0].value,
-                  objectInfo: objects,
-                  children: [], // No children
-                });
-                // Continue to update nodes below
-              } else if (allLiterals && objects.length > 1) {
-                // Multiple literals: show as expandable with all literals as children
-                for (const obj of objects) {
-                  const objectNodeId = getNodeId('object', obj.value, undefined, nodeId);
-                  if (!newNodes.has(objectNodeId)) {
-                    newNodes.set(objectNodeId, {
-                      type: 'object',
-                      iri: obj.value,
-                      loaded: false,
-                      isLiteral: true,
-                      literalValue: obj.value,
-                      parentNodeId: nodeId,
-                    });
-                  }
-                  children.push(objectNodeId);
-                }
-              } else {
-                // Has IRIs (or mix): show all as expandable children
-                for (const obj of objects) {
-                  const objectNodeId = getNodeId('object', obj.value, undefined, nodeId);
-                  if (!newNodes.has(objectNodeId)) {
-                    newNodes.set(objectNodeId, {
-                      type: 'object',
-                      iri: obj.value,
-                      loaded: false,
-                      isLiteral: obj.isLiteral,
-                      literalValue: obj.isLiteral ? obj.value : undefined,
-                      parentNodeId: nodeId,
-                    });
-                  }
-                  children.push(objectNodeId);
-                }
-              }
-              
-              // Store object info for reference (if not already set above for single literal)
-              if (!newNodes.has(nodeId) || newNodes.get(nodeId)?.singleLiteralValue === undefined) {
-                newNodes.set(nodeId, {
-                  ...node,
-                  objectInfo: objects,
-                });
-              }
+            const valueNodes = await loadValueNodes(node, nodeId, 0, PAGE_SIZE);
+            const total = node.totalCount ?? valueNodes.size;
+            const loadedCount = Math.min(PAGE_SIZE, total);
+            const [firstValue] = valueNodes.values();
+
+            if (valueNodes.size === 1 && firstValue.isLiteral && loadedCount >= total) {
+              // Single literal: store it inline, no children
+              newNodes.set(nodeId, {
+                ...node,
+                loaded: true,
+                singleLiteral: firstValue.literal,
+                sources: firstValue.sources ?? node.sources,
+                children: [], // No children
+              });
             } else {
-              // Load subjects (always NamedNodes) - always expandable
-              const subjects = await loadSubjects(node.iri, node.predicate);
-              for (const subjectIri of subjects) {
-                const objectNodeId = getNodeId('object', subjectIri, undefined, nodeId);
-                if (!newNodes.has(objectNodeId)) {
-                  newNodes.set(objectNodeId, {
-                    type: 'object',
-                    iri: subjectIri,
-                    loaded: false,
-                    isLiteral: false,
-                    parentNodeId: nodeId,
-                  });
-                }
-                children.push(objectNodeId);
+              for (const [valueNodeId, valueNode] of valueNodes) {
+                newNodes.set(valueNodeId, valueNode);
+                children.push(valueNodeId);
               }
+              newNodes.set(nodeId, { ...node, loadedCount });
             }
           }
         } else if (node.type === 'object') {
@@ -436,7 +531,7 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
 
           // Mark node as loaded and set children (unless it's a single literal which is already set)
           const updatedNode = updatedNodes.get(nodeId);
-          if (updatedNode && updatedNode.singleLiteralValue === undefined) {
+          if (updatedNode && updatedNode.singleLiteral === undefined) {
             updatedNodes.set(nodeId, {
               ...updatedNode,
               loaded: true,
@@ -454,7 +549,53 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
         setLoading(false);
       }
     },
-    [nodes, dataset, getNodeId, loadOutgoingPredicates, loadIncomingPredicates, loadObjects, loadSubjects]
+    [nodes, getNodeId, loadPredicates, loadValueNodes]
+  );
+
+  // Append the next page, or all remaining values, to an expanded predicate node
+  const loadMoreValues = useCallback(
+    async (nodeId: NodeId, all: boolean) => {
+      const node = nodes.get(nodeId);
+      if (loading || node?.type !== 'predicate' || node.loadedCount === undefined) return;
+
+      setLoading(true);
+      try {
+        const offset = node.loadedCount;
+        const total = node.totalCount ?? offset;
+        const valueNodes = await loadValueNodes(node, nodeId, offset, all ? undefined : PAGE_SIZE);
+
+        setNodes((prevNodes) => {
+          const current = prevNodes.get(nodeId);
+          if (!current) return prevNodes;
+          const updatedNodes = new Map(prevNodes);
+          const children = [...(current.children ?? [])];
+          for (const [valueNodeId, valueNode] of valueNodes) {
+            const existing = updatedNodes.get(valueNodeId);
+            if (existing) {
+              // Already on an earlier page, e.g. once per dataset of a union
+              updatedNodes.set(valueNodeId, {
+                ...existing,
+                sources: sourceList(new Set([...(existing.sources ?? []), ...(valueNode.sources ?? [])])),
+              });
+            } else {
+              updatedNodes.set(valueNodeId, valueNode);
+              children.push(valueNodeId);
+            }
+          }
+          updatedNodes.set(nodeId, {
+            ...current,
+            children,
+            loadedCount: all ? total : Math.min(offset + PAGE_SIZE, total),
+          });
+          return updatedNodes;
+        });
+      } catch (error) {
+        console.error('Error loading more values:', error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [nodes, loading, loadValueNodes]
   );
 
   // Handle expansion
@@ -479,21 +620,31 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
   );
 
   // Convert nodes to tree items
-  const treeItems = useMemo((): TreeViewBaseItem[] => {
+  const treeItems = useMemo((): GraphTreeItem[] => {
     if (nodes.size === 0) return [];
 
     // Find root node
     const rootNodes = Array.from(nodes.values()).filter((n) => n.type === 'root');
     if (rootNodes.length === 0) return [];
 
-    const buildTreeItem = (nodeId: NodeId): TreeViewBaseItem | null => {
+    const preferred = preferredLanguage.toLowerCase();
+    // Shortened IRI, followed by the resource's label once it is resolved
+    const resourceLabel = (key: string) => {
+      const resolved = resolveLabel(key);
+      return resolved ? `${shortenUri(key)} | ${resolved}` : shortenUri(key);
+    };
+    const languageOf = (nodeId: NodeId) => nodes.get(nodeId)?.literal?.language ?? '';
+
+    const buildTreeItem = (nodeId: NodeId): GraphTreeItem | null => {
       const node = nodes.get(nodeId);
       if (!node) return null;
 
       let label = '';
       let isLiteral = false;
+      let literal: LiteralInfo | undefined;
+      let literalPrefix: string | undefined;
       if (node.type === 'root') {
-        label = shortenUri(node.iri);
+        label = resourceLabel(node.iri);
       } else if (node.type === 'in') {
         label = '← In';
       } else if (node.type === 'out') {
@@ -501,31 +652,46 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
       } else if (node.type === 'predicate') {
         const predicateLabel = shortenUri(node.predicate || '');
         // If single literal, show it inline
-        if (node.singleLiteralValue !== undefined) {
-          label = `${predicateLabel}: ${node.singleLiteralValue}`;
+        if (node.singleLiteral !== undefined) {
+          label = `${predicateLabel}: ${node.singleLiteral.value}`;
           isLiteral = true; // Mark as literal for right alignment
+          literal = node.singleLiteral;
+          literalPrefix = `${predicateLabel}:`;
+        } else if (node.totalCount !== undefined) {
+          label = `${predicateLabel} (${node.totalCount.toLocaleString()})`;
         } else {
           label = predicateLabel;
         }
       } else if (node.type === 'object') {
-        if (node.isLiteral && node.literalValue) {
-          label = node.literalValue;
+        if (node.isLiteral && node.literal) {
+          label = node.literal.value;
           isLiteral = true;
+          literal = node.literal;
         } else {
-          label = shortenUri(node.iri);
+          label = resourceLabel(node.iri);
         }
       }
+      // In the union view, name the dataset(s) each triple came from
+      label += formatSources(node.sources);
 
-      const children: TreeViewBaseItem[] = [];
+      const children: GraphTreeItem[] = [];
       
       // Predicates with single literals should not be expandable
-      const isSingleLiteralPredicate = node.type === 'predicate' && node.singleLiteralValue !== undefined;
+      const isSingleLiteralPredicate = node.type === 'predicate' && node.singleLiteral !== undefined;
       // Literal objects should never be expandable (they're leaf nodes)
       const isLiteralObject = node.type === 'object' && node.isLiteral;
       
       if (!isSingleLiteralPredicate && !isLiteralObject) {
         if (node.children && node.children.length > 0) {
-          for (const childId of node.children) {
+          let childIds = node.children;
+          // With a preferred language, hide literals in other languages as long as one matches
+          if (preferred && childIds.some((childId) => matchesLanguage(languageOf(childId), preferred))) {
+            childIds = childIds.filter((childId) => {
+              const language = languageOf(childId);
+              return !language || matchesLanguage(language, preferred);
+            });
+          }
+          for (const childId of childIds) {
             const childItem = buildTreeItem(childId);
             if (childItem) {
               children.push(childItem);
@@ -542,9 +708,26 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
             });
           }
         }
+
+        // Offer the values of a predicate node that are not loaded yet
+        if (node.type === 'predicate' && node.loadedCount !== undefined && node.totalCount !== undefined) {
+          const remaining = node.totalCount - node.loadedCount;
+          if (remaining > 0) {
+            children.push({
+              id: `${nodeId}${LOAD_MORE_SUFFIX}`,
+              label: `Load next ${Math.min(PAGE_SIZE, remaining).toLocaleString()} (${remaining.toLocaleString()} more)`,
+            });
+          }
+          if (remaining > PAGE_SIZE) {
+            children.push({
+              id: `${nodeId}${LOAD_ALL_SUFFIX}`,
+              label: `Load all ${remaining.toLocaleString()} remaining`,
+            });
+          }
+        }
       }
 
-      // Use a special ID prefix for literals to enable CSS targeting
+      // Literal items get a special ID prefix; expansion and the context menu strip it
       const itemId = isLiteral ? `literal:${nodeId}` : nodeId;
       
       // Store node data in the item for click handling
@@ -552,6 +735,9 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
         id: itemId,
         label,
         children: children.length > 0 ? children : undefined,
+        // Rendered by BrowserTreeItem with datatype and language chips
+        ...(literal && { literal, literalPrefix, literalSuffix: formatSources(node.sources) }),
+        ...(node.type === 'object' && !node.isLiteral && { resource: node.iri }),
         // Store metadata for predicate click handling
         ...(node.type === 'predicate' && {
           'data-predicate': node.predicate,
@@ -562,7 +748,7 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
     };
 
     // Build tree for each root node
-    const items: TreeViewBaseItem[] = [];
+    const items: GraphTreeItem[] = [];
     for (const rootNode of rootNodes) {
       const rootItem = buildTreeItem(getNodeId('root', rootNode.iri));
       if (rootItem) {
@@ -570,44 +756,172 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
       }
     }
     return items;
-  }, [nodes, getNodeId, loading]);
+  }, [nodes, getNodeId, loading, shortenUri, resolveLabel, preferredLanguage]);
 
-  // Handle root IRI submission
-  const handleLoadRoot = useCallback(async () => {
-    if (!rootIri.trim() || !dataset) return;
+  // Language tags of the literals loaded so far, offered as preferred languages
+  const languages = useMemo(() => {
+    const tags = new Set<string>();
+    for (const node of nodes.values()) {
+      const language = (node.literal ?? node.singleLiteral)?.language;
+      if (language) tags.add(language.toLowerCase());
+    }
+    return Array.from(tags).sort();
+  }, [nodes]);
+
+  // Show the given IRI as the root node. Its only children are the In and Out
+  // nodes, which need no query, so they are created along with it rather than
+  // loaded from a nodes map that does not contain the new root yet
+  const showRoot = useCallback((iri: string) => {
+    if (!iri || !dataset) return;
 
-    const rootNodeId = getNodeId('root', rootIri.trim());
-    const newNodes = new Map();
+    const rootNodeId = getNodeId('root', iri);
+    const inNodeId = getNodeId('in', iri, undefined, rootNodeId);
+    const outNodeId = getNodeId('out', iri, undefined, rootNodeId);
+    const newNodes = new Map<NodeId, NodeData>();
     newNodes.set(rootNodeId, {
       type: 'root',
-      iri: rootIri.trim(),
-      loaded: false,
+      iri,
+      loaded: true,
+      children: [inNodeId, outNodeId],
     });
+    newNodes.set(inNodeId, { type: 'in', iri, loaded: false, parentNodeId: rootNodeId });
+    newNodes.set(outNodeId, { type: 'out', iri, loaded: false, parentNodeId: rootNodeId });
     setNodes(newNodes);
     setExpandedItems([]); // Start collapsed by default
-    
-    // Load children immediately after state is set
-    // Use setTimeout to ensure state has updated
-    setTimeout(async () => {
-      await loadNodeChildren(rootNodeId);
-    }, 0);
-  }, [rootIri, dataset, getNodeId, loadNodeChildren]);
+  }, [dataset, getNodeId]);
+
+  // Keep the current history entry's tree up to date
+  useEffect(() => {
+    saveTree({ nodes, expandedItems });
+  }, [nodes, expandedItems, saveTree]);
+
+  // Browse from a new root, dropping the entries ahead of the current one
+  const loadRoot = useCallback(
+    (iri: string) => {
+      if (!iri || !dataset) return;
+      // Loading the current root again just reloads it
+      if (history[historyIndex]?.iri !== iri) {
+        pushHistory(iri);
+      }
+      showRoot(iri);
+    },
+    [dataset, history, historyIndex, pushHistory, showRoot]
+  );
+
+  // Return to a history entry, restoring its tree as it was left
+  const goToHistoryEntry = useCallback(
+    (index: number) => {
+      const entry = history[index];
+      if (!entry || index === historyIndex) return;
+      goToHistory(index);
+      setRootIri(entry.iri);
+      if (entry.tree) {
+        setNodes(entry.tree.nodes);
+        setExpandedItems(entry.tree.expandedItems);
+      } else {
+        showRoot(entry.iri);
+      }
+    },
+    [history, historyIndex, goToHistory, showRoot]
+  );
+
+  const canGoBack = historyIndex > 0;
+  const canGoForward = historyIndex < history.length - 1;
+
+  // Alt+Left / Alt+Right go back and forward, except while typing
+  const handleHistoryKeyDown = (e: React.KeyboardEvent) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    if (e.key === 'ArrowLeft' && canGoBack) {
+      e.preventDefault();
+      goToHistoryEntry(historyIndex - 1);
+    } else if (e.key === 'ArrowRight' && canGoForward) {
+      e.preventDefault();
+      goToHistoryEntry(historyIndex + 1);
+    }
+  };
+
+  const browseFrom = useCallback(
+    (resource: string) => {
+      setRootIri(resource);
+      loadRoot(resource);
+    },
+    [loadRoot]
+  );
+
+  // Handle root IRI submission
+  const handleLoadRoot = useCallback(() => loadRoot(rootIri.trim()), [rootIri, loadRoot]);
+
+  // Open IRIs requested from outside, e.g. a row of the class instance table
+  useEffect(() => {
+    const { handledRequestId, setHandledRequestId } = useBrowserHistoryStore.getState();
+    if (!openRequest || openRequest.requestId === handledRequestId) return;
+    setHandledRequestId(openRequest.requestId);
+    setRootIri(openRequest.iri);
+    loadRoot(openRequest.iri);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openRequest]);
 
   if (!dataset) {
     return null;
   }
 
   return (
-    <Card>
+    <Card onKeyDown={handleHistoryKeyDown}>
       <CardContent>
         <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
           <AccountTreeIcon sx={{ mr: 1, color: 'primary.main' }} />
-          <Typography variant="h6" component="h2">
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
             Graph Browser
           </Typography>
+          {(languages.length > 0 || preferredLanguage) && (
+            <TextField
+              select
+              label="Language"
+              value={preferredLanguage}
+              onChange={(e) => setPreferredLanguage(e.target.value)}
+              size="small"
+              sx={{ minWidth: 140 }}
+            >
+              <MenuItem value="">All languages</MenuItem>
+              {/* Keep the current choice selectable after a new root drops its literals */}
+              {(languages.includes(preferredLanguage) || !preferredLanguage
+                ? languages
+                : [preferredLanguage, ...languages]
+              ).map((language) => (
+                <MenuItem key={language} value={language}>
+                  {language}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
         </Box>
 
         <Box sx={{ display: 'flex', gap: 2, mb: 3, alignItems: 'center' }}>
+          <Box sx={{ display: 'flex' }}>
+            <Tooltip title="Back (Alt+←)">
+              <span>
+                <IconButton
+                  aria-label="back"
+                  onClick={() => goToHistoryEntry(historyIndex - 1)}
+                  disabled={!canGoBack}
+                >
+                  <ArrowBackIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Forward (Alt+→)">
+              <span>
+                <IconButton
+                  aria-label="forward"
+                  onClick={() => goToHistoryEntry(historyIndex + 1)}
+                  disabled={!canGoForward}
+                >
+                  <ArrowForwardIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
           <TextField
             inputRef={inputRef}
             label="Start IRI"
@@ -632,6 +946,28 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
           </Button>
         </Box>
 
+        {history.length > 1 && (
+          <Breadcrumbs maxItems={MAX_BREADCRUMBS} sx={{ mb: 2 }}>
+            {history.slice(0, historyIndex + 1).map((entry, index) =>
+              index === historyIndex ? (
+                <Typography key={index} variant="body2" color="text.primary" title={entry.iri}>
+                  {displayLabel(entry.iri)}
+                </Typography>
+              ) : (
+                <Link
+                  key={index}
+                  component="button"
+                  variant="body2"
+                  title={entry.iri}
+                  onClick={() => goToHistoryEntry(index)}
+                >
+                  {displayLabel(entry.iri)}
+                </Link>
+              )
+            )}
+          </Breadcrumbs>
+        )}
+
         {treeItems.length > 0 && (
           <Box
             sx={{
@@ -753,42 +1089,43 @@ export function GraphBrowser({ dataset, onSelectPredicate }: GraphBrowserProps)
               }}
               sx={{ width: '100%', height: '100%' }}
             >
-              <RichTreeView
-                items={treeItems}
-                expandedItems={expandedItems}
-                onExpandedItemsChange={handleExpandedItemsChange}
-                sx={{
-                flexGrow: 1,
-                width: '100%',
-                '& .MuiTreeItem-content': {
-                  width: '100%',
-                },
-                // Store item ID on tree item for context menu
-                '& .MuiTreeItem-root': {
-                  '&[id]': {
-                    // IDs are already set by RichTreeView
-                  },
-                },
-                '& .MuiTreeItem-label': {
-                  overflow: 'hidden',
-                  textOverflow: 'ellipsis',
-                  whiteSpace: 'nowrap',
-                  width: '100%',
-                  maxWidth: '100%',
-                  display: 'block',
-                  textAlign: 'left', // Default: left-align
-                },
-                // Right-align literal values (items with ID starting with "literal:")
-                '& .MuiTreeItem-root[id^="literal:"] .MuiTreeItem-label': {
-                  textAlign: 'right',
-                  direction: 'rtl',
-                  '& > span': {
-                    direction: 'ltr',
-                    display: 'inline-block',
-                  },
-                },
-              }}
-            />
+              <BrowseFromContext.Provider value={browseFrom}>
+                <RichTreeView
+                  items={treeItems}
+                  slots={{ item: BrowserTreeItem }}
+                  expandedItems={expandedItems}
+                  onExpandedItemsChange={handleExpandedItemsChange}
+                  onItemClick={(_event, itemId) => {
+                    if (itemId.endsWith(LOAD_MORE_SUFFIX)) {
+                      loadMoreValues(itemId.slice(0, -LOAD_MORE_SUFFIX.length), false);
+                    } else if (itemId.endsWith(LOAD_ALL_SUFFIX)) {
+                      loadMoreValues(itemId.slice(0, -LOAD_ALL_SUFFIX.length), true);
+                    }
+                  }}
+                  sx={{
+                    flexGrow: 1,
+                    width: '100%',
+                    '& .MuiTreeItem-content': {
+                      width: '100%',
+                    },
+                    // Store item ID on tree item for context menu
+                    '& .MuiTreeItem-root': {
+                      '&[id]': {
+                        // IDs are already set by RichTreeView
+                      },
+                    },
+                    '& .MuiTreeItem-label': {
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                      width: '100%',
+                      maxWidth: '100%',
+                      display: 'block',
+                      textAlign: 'left', // Default: left-align
+                    },
+                  }}
+                />
+              </BrowseFromContext.Provider>
             </Box>
           </Box>
         )}
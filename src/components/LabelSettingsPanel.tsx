@@ -0,0 +1,66 @@
+import { Autocomplete, Box, Button, Card, CardContent, Chip, TextField, Typography } from '@mui/material';
+import TranslateIcon from '@mui/icons-material/Translate';
+import { DEFAULT_LABEL_PREDICATES } from '../services/labelResolver';
+import { expandIri } from '../services/namespaces';
+import { useLabelStore } from '../stores/labelStore';
+import { usePrefixStore } from '../stores/prefixStore';
+import { useShortenIri } from '../hooks/useShortenIri';
+
+export function LabelSettingsPanel() {
+  const shortenUri = useShortenIri();
+  const prefixes = usePrefixStore((state) => state.prefixes);
+  const predicates = useLabelStore((state) => state.predicates);
+  const languages = useLabelStore((state) => state.languages);
+  const setPredicates = useLabelStore((state) => state.setPredicates);
+  const setLanguages = useLabelStore((state) => state.setLanguages);
+  const resetSettings = useLabelStore((state) => state.resetSettings);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <TranslateIcon sx={{ mr: 1, color: 'primary.main' }} />
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            Labels
+          </Typography>
+          <Button size="small" onClick={resetSettings}>
+            Reset
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Resources are shown by the first of these predicates they have a value for, in the first
+          preferred language available. Add a predicate as a full IRI or with a known prefix.
+        </Typography>
+        <Autocomplete
+          multiple
+          freeSolo
+          options={DEFAULT_LABEL_PREDICATES.filter((predicate) => !predicates.includes(predicate))}
+          value={predicates}
+          onChange={(_, value) =>
+            setPredicates(
+              Array.from(new Set(value.map((iri) => expandIri(iri.trim(), prefixes)).filter(Boolean)))
+            )
+          }
+          getOptionLabel={shortenUri}
+          renderTags={(value, getTagProps) =>
+            value.map((iri, index) => (
+              <Chip {...getTagProps({ index })} key={iri} label={`${index + 1}. ${shortenUri(iri)}`} size="small" />
+            ))
+          }
+          renderInput={(params) => <TextField {...params} label="Label predicates, by priority" size="small" />}
+          sx={{ mb: 2 }}
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          options={[]}
+          value={languages}
+          onChange={(_, value) => setLanguages(Array.from(new Set(value.map((tag) => tag.trim()).filter(Boolean))))}
+          renderInput={(params) => (
+            <TextField {...params} label="Preferred languages" placeholder="e.g. en" size="small" />
+          )}
+        />
+      </CardContent>
+    </Card>
+  );
+}
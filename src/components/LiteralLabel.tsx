@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Box, Chip, Link } from '@mui/material';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { formatLiteral } from '../utils/format';
+
+interface LiteralLabelProps {
+  value: string;
+  datatype: string;
+  language: string;
+  // Shown before the value, e.g. the predicate of a literal displayed inline
+  prefix?: string;
+  // Shown after the chips, e.g. the source datasets in the union view
+  suffix?: string;
+}
+
+// Longer values are cut here until expanded
+const COLLAPSED_LENGTH = 120;
+
+// Datatypes implied by a plain or language-tagged literal get no chip
+const IMPLICIT_DATATYPES = new Set([
+  'http://www.w3.org/2001/XMLSchema#string',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString',
+]);
+
+export function LiteralLabel({ value, datatype, language, prefix, suffix }: LiteralLabelProps) {
+  const shortenUri = useShortenIri();
+  const [expanded, setExpanded] = useState(false);
+
+  const text = formatLiteral(value, datatype);
+  const collapsible = text.length > COLLAPSED_LENGTH;
+
+  return (
+    <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+      {prefix && (
+        <Box component="span" sx={{ flexShrink: 0 }}>
+          {prefix}
+        </Box>
+      )}
+      <Box
+        component="span"
+        // The formatted value replaces the lexical form, which stays available on hover
+        title={text !== value ? value : undefined}
+        sx={{
+          flexGrow: 1,
+          minWidth: 0,
+          textAlign: 'right',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: expanded ? 'pre-wrap' : 'nowrap',
+          overflowWrap: 'anywhere',
+        }}
+      >
+        {collapsible && !expanded ? `${text.slice(0, COLLAPSED_LENGTH)}…` : text}
+      </Box>
+      {collapsible && (
+        <Link
+          component="button"
+          variant="caption"
+          onClick={(e) => {
+            // Keep the click from toggling or selecting the tree item
+            e.stopPropagation();
+            setExpanded(!expanded);
+          }}
+          sx={{ flexShrink: 0 }}
+        >
+          {expanded ? 'less' : 'more'}
+        </Link>
+      )}
+      {language && <Chip label={`@${language}`} size="small" variant="outlined" sx={{ flexShrink: 0 }} />}
+      {!IMPLICIT_DATATYPES.has(datatype) && (
+        <Chip label={shortenUri(datatype)} size="small" variant="outlined" sx={{ flexShrink: 0 }} />
+      )}
+      {suffix && (
+        <Box component="span" sx={{ flexShrink: 0, whiteSpace: 'pre' }}>
+          {suffix}
+        </Box>
+      )}
+    </Box>
+  );
+}
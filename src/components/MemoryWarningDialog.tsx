@@ -0,0 +1,93 @@
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { RDF_FORMAT_LABELS } from '../services/rdfFormats';
+import type { MemoryBudget } from '../services/memoryBudget';
+import { formatBytes } from '../utils/format';
+
+interface MemoryWarningDialogProps {
+  budget: MemoryBudget | null;
+  fileName?: string;
+  openDatasetCount: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function MemoryWarningDialog({
+  budget,
+  fileName,
+  openDatasetCount,
+  onConfirm,
+  onCancel,
+}: MemoryWarningDialogProps) {
+  return (
+    <Dialog open={budget !== null} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>This dataset may not fit into memory</DialogTitle>
+      {budget && (
+        <DialogContent>
+          <Alert severity={budget.exceedsLimit ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            {budget.exceedsLimit
+              ? 'Loading needs more memory than the browser reports as available. The tab will most likely crash or the load will fail.'
+              : 'Loading needs most of the memory the browser reports as available and may fail.'}
+          </Alert>
+
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {fileName ?? 'This file'} is a {formatBytes(budget.fileSize)} {RDF_FORMAT_LABELS[budget.format]} file.
+            Loading it is estimated to need about <strong>{formatBytes(budget.totalBytes)}</strong>
+            {budget.wasmBytes > 0 &&
+              ` (${formatBytes(budget.wasmBytes)} WASM memory, ${formatBytes(budget.heapBytes)} JS heap)`}
+            .
+          </Typography>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Limit</TableCell>
+                <TableCell align="right">Needed</TableCell>
+                <TableCell align="right">Available</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {budget.limits.map((limit) => (
+                <TableRow key={limit.label}>
+                  <TableCell>{limit.label}</TableCell>
+                  <TableCell align="right">{formatBytes(limit.requiredBytes)}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: limit.requiredBytes > limit.bytes ? 'error.main' : undefined }}
+                  >
+                    {formatBytes(limit.bytes)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {openDatasetCount > 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              {openDatasetCount} other dataset{openDatasetCount === 1 ? ' is' : 's are'} open and also
+              using memory. Closing them first makes a successful load more likely.
+            </Typography>
+          )}
+        </DialogContent>
+      )}
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button onClick={onConfirm} color={budget?.exceedsLimit ? 'error' : 'warning'}>
+          Load anyway
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
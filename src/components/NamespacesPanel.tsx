@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import LanguageIcon from '@mui/icons-material/Language';
+import type { DatasetHandle } from '../services/datasetClient';
+import { analyzeNamespaces, proposePrefixes } from '../services/namespaces';
+import type { NamespaceAnalysis, PrefixMap } from '../services/namespaces';
+import { usePrefixStore } from '../stores/prefixStore';
+
+interface NamespacesPanelProps {
+  dataset: DatasetHandle | null;
+}
+
+const PREFIX_PATTERN = /^[A-Za-z][\w-]*$/;
+const COLLAPSED_ROWS = 25;
+
+export function NamespacesPanel({ dataset }: NamespacesPanelProps) {
+  const prefixes = usePrefixStore((state) => state.prefixes);
+  const mergePrefixes = usePrefixStore((state) => state.mergePrefixes);
+  const [analysis, setAnalysis] = useState<NamespaceAnalysis | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  // Prefixes typed by the user, by namespace; override the proposals
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running scan on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleAnalyze = useCallback(async () => {
+    if (!dataset) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setAnalyzing(true);
+    setError(null);
+    setEdits({});
+    try {
+      await analyzeNamespaces(dataset, {
+        signal: controller.signal,
+        onProgress: (partial) => {
+          if (!controller.signal.aborted) setAnalysis(partial);
+        },
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error analyzing namespaces:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setAnalyzing(false);
+      }
+    }
+  }, [dataset]);
+
+  // Proposed prefix per namespace, keeping prefixes that are already in use
+  const proposals = useMemo(() => {
+    if (!analysis) return new Map<string, string>();
+    const proposed = proposePrefixes(
+      analysis.namespaces.map((usage) => usage.namespace),
+      prefixes
+    );
+    return new Map(Object.entries(proposed).map(([prefix, namespace]) => [namespace, prefix]));
+  }, [analysis, prefixes]);
+
+  const prefixFor = (namespace: string) => edits[namespace] ?? proposals.get(namespace) ?? '';
+
+  // Prefixes that are invalid or given to more than one namespace
+  const invalidNamespaces = useMemo(() => {
+    const invalid = new Set<string>();
+    const seen = new Map<string, string>();
+    for (const usage of analysis?.namespaces ?? []) {
+      const prefix = edits[usage.namespace] ?? proposals.get(usage.namespace) ?? '';
+      if (!prefix) continue;
+      if (!PREFIX_PATTERN.test(prefix)) {
+        invalid.add(usage.namespace);
+      } else if (seen.has(prefix)) {
+        invalid.add(usage.namespace);
+        invalid.add(seen.get(prefix)!);
+      } else {
+        seen.set(prefix, usage.namespace);
+      }
+    }
+    return invalid;
+  }, [analysis, edits, proposals]);
+
+  const handleApply = () => {
+    if (!analysis) return;
+    const applied: PrefixMap = {};
+    for (const usage of analysis.namespaces) {
+      const prefix = prefixFor(usage.namespace);
+      if (prefix && !invalidNamespaces.has(usage.namespace)) {
+        applied[prefix] = usage.namespace;
+      }
+    }
+    mergePrefixes(applied);
+    setEdits({});
+  };
+
+  if (!dataset) {
+    return null;
+  }
+
+  const rows = analysis
+    ? showAll
+      ? analysis.namespaces
+      : analysis.namespaces.slice(0, COLLAPSED_ROWS)
+    : [];
+  const percent =
+    analysis && analysis.totalTriples > 0
+      ? Math.min(100, (analysis.processedTriples / analysis.totalTriples) * 100)
+      : 0;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1 }}>
+          <LanguageIcon sx={{ color: 'primary.main' }} />
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            Namespaces
+          </Typography>
+          {analyzing ? (
+            <Button variant="outlined" color="error" size="small" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outlined" size="small" onClick={handleAnalyze}>
+              {analysis ? 'Analyze Again' : 'Analyze Namespaces'}
+            </Button>
+          )}
+          {analysis && !analyzing && (
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleApply}
+              disabled={analysis.namespaces.length === 0}
+            >
+              Apply Prefixes
+            </Button>
+          )}
+        </Box>
+
+        {!analysis && !analyzing && (
+          <Typography variant="body2" color="text.secondary">
+            Scan all IRIs to group them by namespace, count where each namespace is used and
+            propose prefixes. Applied prefixes are used to shorten IRIs throughout the app.
+          </Typography>
+        )}
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            Failed to analyze namespaces: {error}
+          </Typography>
+        )}
+
+        {analysis && (
+          <>
+            {analyzing && <LinearProgress variant="determinate" value={percent} sx={{ mb: 1 }} />}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {analysis.namespaces.length.toLocaleString()} namespaces in{' '}
+              {analysis.processedTriples.toLocaleString()} of{' '}
+              {analysis.totalTriples.toLocaleString()} triples
+              {!analysis.complete && !analyzing && ' (cancelled)'}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ width: 140 }}>Prefix</TableCell>
+                  <TableCell>Namespace</TableCell>
+                  <TableCell align="right">IRIs</TableCell>
+                  <TableCell align="right">Subject</TableCell>
+                  <TableCell align="right">Predicate</TableCell>
+                  <TableCell align="right">Object</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((usage) => (
+                  <TableRow key={usage.namespace}>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        variant="standard"
+                        value={prefixFor(usage.namespace)}
+                        error={invalidNamespaces.has(usage.namespace)}
+                        onChange={(e) =>
+                          setEdits((prev) => ({ ...prev, [usage.namespace]: e.target.value.trim() }))
+                        }
+                        slotProps={{ htmlInput: { 'aria-label': `prefix for ${usage.namespace}` } }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+                      {usage.namespace}
+                    </TableCell>
+                    <TableCell align="right">{usage.terms.toLocaleString()}</TableCell>
+                    <TableCell align="right">{usage.subject.toLocaleString()}</TableCell>
+                    <TableCell align="right">{usage.predicate.toLocaleString()}</TableCell>
+                    <TableCell align="right">{usage.object.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {analysis.namespaces.length > COLLAPSED_ROWS && (
+              <Button size="small" onClick={() => setShowAll(!showAll)} sx={{ mt: 1 }}>
+                {showAll ? 'Show fewer' : `Show all ${analysis.namespaces.length.toLocaleString()}`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { RDF_FORMAT_LABELS } from '../services/rdfFormats';
+import type { RdfParseError, SourceExcerpt } from '../services/rdfParseError';
+
+interface ParseErrorPanelProps {
+  error: RdfParseError;
+  fileName?: string;
+  onDismiss: () => void;
+}
+
+// Numbered source lines, highlighting the line the parser failed on
+function SourceListing({ excerpt, highlight }: { excerpt: SourceExcerpt; highlight?: number }) {
+  const width = String(excerpt.startLine + excerpt.lines.length - 1).length;
+
+  return (
+    <Box
+      component="pre"
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: '0.8rem',
+        backgroundColor: 'grey.100',
+        p: 1.5,
+        borderRadius: 1,
+        overflowX: 'auto',
+        m: 0,
+      }}
+    >
+      {excerpt.lines.map((line, index) => {
+        const lineNumber = excerpt.startLine + index;
+        const isHighlighted = lineNumber === highlight;
+        return (
+          <Box
+            key={lineNumber}
+            component="div"
+            sx={isHighlighted ? { backgroundColor: 'error.light', color: 'error.contrastText' } : undefined}
+          >
+            <Box component="span" sx={{ color: isHighlighted ? 'inherit' : 'text.secondary' }}>
+              {String(lineNumber).padStart(width, ' ')}
+            </Box>
+            {'  '}
+            {line}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+export function ParseErrorPanel({ error, fileName, onDismiss }: ParseErrorPanelProps) {
+  const { details } = error;
+
+  return (
+    <Card sx={{ borderLeft: 4, borderColor: 'error.main' }}>
+      <CardContent>
+        <Alert
+          severity="error"
+          action={
+            <Tooltip title="Dismiss">
+              <IconButton size="small" onClick={onDismiss} aria-label="dismiss parse error">
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          }
+          sx={{ mb: 2 }}
+        >
+          <AlertTitle>{RDF_FORMAT_LABELS[details.format]} syntax error</AlertTitle>
+          {details.message}
+        </Alert>
+
+        <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', mb: details.excerpt ? 2 : 0 }}>
+          {fileName && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                File
+              </Typography>
+              <Typography variant="body1">{fileName}</Typography>
+            </Box>
+          )}
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Format
+            </Typography>
+            <Typography variant="body1">{RDF_FORMAT_LABELS[details.format]}</Typography>
+          </Box>
+          {details.line !== undefined && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Line
+              </Typography>
+              <Typography variant="body1">{details.line.toLocaleString()}</Typography>
+            </Box>
+          )}
+        </Box>
+
+        {details.excerpt && <SourceListing excerpt={details.excerpt} highlight={details.line} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import LinkIcon from '@mui/icons-material/Link';
+import type { PropertyInfo } from '../services/propertyDiscovery';
+import type { FrequencyEntry } from '../utils/frequency';
+import { useBookmark } from '../hooks/useBookmark';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { BookmarkChip } from './BookmarkChip';
+
+interface PropertiesListProps {
+  properties: PropertyInfo[];
+  loading: boolean;
+}
+
+const COLLAPSED_ROWS = 25;
+const monospaceCell = { fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' } as const;
+
+export function PropertiesList({ properties, loading }: PropertiesListProps) {
+  const { addBookmark } = useBookmark();
+  const shortenUri = useShortenIri();
+  const [showAll, setShowAll] = useState(false);
+
+  const iriList = (iris: string[]) => iris.map(shortenUri).join(', ');
+  const typeList = (entries: FrequencyEntry[]) =>
+    entries.map((entry) => `${shortenUri(entry.value)} (${entry.count.toLocaleString()})`).join(', ');
+
+  const header = (
+    <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+      <LinkIcon sx={{ mr: 1, color: 'primary.main' }} />
+      <Typography variant="h6" component="h2">
+        Properties Found
+      </Typography>
+      {!loading && <Chip label={properties.length} size="small" sx={{ ml: 2 }} color="primary" />}
+    </Box>
+  );
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent>
+          {header}
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (properties.length === 0) {
+    return (
+      <Card>
+        <CardContent>
+          {header}
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+            No properties found in this dataset.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rows = showAll ? properties : properties.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <Card>
+      <CardContent>
+        {header}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Observed types come from a sample of each property's triples; literal objects are listed
+          by datatype.
+        </Typography>
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Property</TableCell>
+                <TableCell align="right">Triples</TableCell>
+                <TableCell>Declared as</TableCell>
+                <TableCell>Domain</TableCell>
+                <TableCell>Range</TableCell>
+                <TableCell>Subject types</TableCell>
+                <TableCell>Object types</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((property) => (
+                <TableRow key={property.iri}>
+                  <TableCell sx={monospaceCell}>{shortenUri(property.iri)}</TableCell>
+                  <TableCell align="right">{property.tripleCount.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {property.declaredAs.length > 0 ? (
+                      property.declaredAs.map((type) => (
+                        <Chip key={type} label={shortenUri(type)} size="small" variant="outlined" sx={{ mr: 0.5 }} />
+                      ))
+                    ) : (
+                      <Chip label="undeclared" size="small" variant="outlined" />
+                    )}
+                  </TableCell>
+                  <TableCell sx={monospaceCell}>{iriList(property.domains)}</TableCell>
+                  <TableCell sx={monospaceCell}>{iriList(property.ranges)}</TableCell>
+                  <TableCell sx={monospaceCell}>{typeList(property.subjectTypes)}</TableCell>
+                  <TableCell sx={monospaceCell}>{typeList(property.objectTypes)}</TableCell>
+                  <TableCell>
+                    <BookmarkChip
+                      iri={property.iri}
+                      onToggle={(isBookmarked) => {
+                        if (isBookmarked) {
+                          addBookmark(property.iri, {
+                            description: `${property.tripleCount.toLocaleString()} triple${property.tripleCount !== 1 ? 's' : ''}`,
+                            hint: 'predicate',
+                          });
+                        }
+                      }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+        {properties.length > COLLAPSED_ROWS && (
+          <Button size="small" onClick={() => setShowAll(!showAll)} sx={{ mt: 1 }}>
+            {showAll ? 'Show fewer' : `Show all ${properties.length.toLocaleString()}`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useRecentDatasetsStore } from '../stores/recentDatasetsStore';
+import type { RecentDataset } from '../services/datasetCache';
+import { formatBytes } from '../utils/format';
+
+interface RecentDatasetsProps {
+  onOpen: (dataset: RecentDataset) => Promise<void>;
+  disabled?: boolean;
+}
+
+export function RecentDatasets({ onOpen, disabled }: RecentDatasetsProps) {
+  const recent = useRecentDatasetsStore((state) => state.recent);
+  const refresh = useRecentDatasetsStore((state) => state.refresh);
+  const evict = useRecentDatasetsStore((state) => state.evict);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  // Load the list from browser storage once on mount
+  useEffect(() => {
+    refresh().catch((err) => console.warn('Dataset cache unavailable:', err));
+  }, [refresh]);
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<HistoryIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled || recent.length === 0}
+      >
+        Recent Datasets ({recent.length})
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => setAnchorEl(null)}
+        slotProps={{ paper: { sx: { minWidth: 360 } } }}
+      >
+        {recent.map((entry) => (
+          <MenuItem
+            key={entry.hash}
+            onClick={() => {
+              setAnchorEl(null);
+              onOpen(entry).catch(console.error);
+            }}
+          >
+            <ListItemText
+              primary={entry.name}
+              secondary={
+                <Typography variant="caption" color="text.secondary">
+                  {formatBytes(entry.size)} · opened {new Date(entry.lastOpened).toLocaleString()}
+                </Typography>
+              }
+            />
+            <Tooltip title="Remove from cache">
+              <IconButton
+                edge="end"
+                size="small"
+                aria-label="remove from cache"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  evict(entry.hash).catch(console.error);
+                }}
+                sx={{ ml: 2 }}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import type { Term } from '@rdfjs/types';
+import type { DatasetHandle } from '../services/datasetClient';
+import { parseShapes } from '../services/shaclShapes';
+import type { ShapesGraph } from '../services/shaclShapes';
+import { validateDataset } from '../services/shaclValidation';
+import type { ValidationProgress, ValidationReport, ValidationResult } from '../services/shaclValidation';
+import { RdfParseError } from '../services/rdfParseError';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { resourceKey } from '../utils/resourceKey';
+import { ParseErrorPanel } from './ParseErrorPanel';
+
+interface ShaclValidationPanelProps {
+  dataset: DatasetHandle;
+  onOpenNode: (iri: string) => void;
+}
+
+type Grouping = 'focusNode' | 'shape' | 'component';
+
+// Groups beyond this are summarized; each one is rendered as a table
+const MAX_GROUPS = 200;
+
+function termText(term: Term, shortenUri: (iri: string) => string): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return shortenUri(term.value);
+    case 'BlankNode':
+      return resourceKey(term);
+    default:
+      return JSON.stringify(term.value);
+  }
+}
+
+export function ShaclValidationPanel({ dataset, onOpenNode }: ShaclValidationPanelProps) {
+  const shortenUri = useShortenIri();
+  const [shapesFile, setShapesFile] = useState<{ name: string; graph: ShapesGraph } | null>(null);
+  const [parseError, setParseError] = useState<{ error: RdfParseError; fileName: string } | null>(null);
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  const [progress, setProgress] = useState<ValidationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<Grouping>('focusNode');
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Stop a running validation on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleShapesFile = async (file: File) => {
+    setParseError(null);
+    setReport(null);
+    setError(null);
+    try {
+      setShapesFile({ name: file.name, graph: parseShapes(await file.text()) });
+    } catch (err) {
+      setShapesFile(null);
+      if (err instanceof RdfParseError) {
+        setParseError({ error: err, fileName: file.name });
+      } else {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    }
+  };
+
+  const handleValidate = useCallback(async () => {
+    if (!shapesFile) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setReport(null);
+    setProgress({ shape: '', shapeIndex: 0, shapeCount: shapesFile.graph.shapes.length, focusNodes: 0, results: 0 });
+    try {
+      const result = await validateDataset(dataset, shapesFile.graph, {
+        signal: controller.signal,
+        onProgress: (update) => {
+          if (!controller.signal.aborted) setProgress(update);
+        },
+      });
+      setReport(result);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error validating dataset:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [dataset, shapesFile]);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ValidationResult[]>();
+    for (const result of report?.results ?? []) {
+      const key =
+        grouping === 'focusNode'
+          ? termText(result.focusNode, shortenUri)
+          : grouping === 'shape'
+            ? shortenUri(result.shape)
+            : shortenUri(result.component);
+      const group = byKey.get(key);
+      if (group) {
+        group.push(result);
+      } else {
+        byKey.set(key, [result]);
+      }
+    }
+    return Array.from(byKey).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  }, [report, grouping, shortenUri]);
+
+  const validating = progress !== null;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1, flexWrap: 'wrap' }}>
+          <FactCheckIcon sx={{ color: 'primary.main' }} />
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            SHACL Validation
+          </Typography>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ttl,text/turtle"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleShapesFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<UploadFileIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={validating}
+          >
+            {shapesFile ? 'Change Shapes' : 'Load Shapes'}
+          </Button>
+          {validating ? (
+            <Button variant="outlined" color="error" size="small" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleValidate}
+              disabled={!shapesFile || shapesFile.graph.shapes.length === 0}
+            >
+              Validate
+            </Button>
+          )}
+        </Box>
+
+        {!shapesFile && !parseError && (
+          <Typography variant="body2" color="text.secondary">
+            Load a SHACL shapes file in Turtle to validate this dataset. Supported constraints:
+            sh:class, sh:datatype, sh:nodeKind, sh:minCount, sh:maxCount, sh:pattern and sh:in, on
+            predicate and inverse paths.
+          </Typography>
+        )}
+
+        {parseError && (
+          <ParseErrorPanel
+            error={parseError.error}
+            fileName={parseError.fileName}
+            onDismiss={() => setParseError(null)}
+          />
+        )}
+
+        {shapesFile && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {shapesFile.name}: {shapesFile.graph.shapes.length.toLocaleString()} node shapes,{' '}
+            {shapesFile.graph.shapes
+              .reduce((count, shape) => count + shape.properties.length, 0)
+              .toLocaleString()}{' '}
+            property shapes
+          </Typography>
+        )}
+
+        {shapesFile && shapesFile.graph.warnings.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {shapesFile.graph.warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+          </Alert>
+        )}
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            Failed to validate: {error}
+          </Typography>
+        )}
+
+        {progress && (
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={progress.shapeCount > 0 ? (progress.shapeIndex / progress.shapeCount) * 100 : 0}
+              sx={{ mb: 1 }}
+            />
+            <Typography variant="body2" color="text.secondary">
+              Shape {progress.shapeIndex + 1} of {progress.shapeCount}
+              {progress.shape && `: ${shortenUri(progress.shape)}`} ·{' '}
+              {progress.focusNodes.toLocaleString()} focus nodes · {progress.results.toLocaleString()} results
+            </Typography>
+          </>
+        )}
+
+        {report && (
+          <>
+            <Alert severity={report.conforms ? 'success' : 'error'} sx={{ mb: 2 }}>
+              {report.conforms
+                ? `The dataset conforms: ${report.focusNodes.toLocaleString()} focus nodes checked.`
+                : `${report.results.length.toLocaleString()} results for ${report.focusNodes.toLocaleString()} focus nodes checked${
+                    report.truncated ? '; validation stopped at the result limit' : ''
+                  }.`}
+            </Alert>
+
+            {report.results.length > 0 && (
+              <>
+                <ToggleButtonGroup
+                  value={grouping}
+                  exclusive
+                  size="small"
+                  onChange={(_, value) => value && setGrouping(value)}
+                  sx={{ mb: 1 }}
+                >
+                  <ToggleButton value="focusNode">By focus node</ToggleButton>
+                  <ToggleButton value="shape">By shape</ToggleButton>
+                  <ToggleButton value="component">By constraint</ToggleButton>
+                </ToggleButtonGroup>
+
+                {groups.slice(0, MAX_GROUPS).map(([key, results]) => (
+                  <Accordion key={key} disableGutters slotProps={{ transition: { unmountOnExit: true } }}>
+                    <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                      <Typography
+                        variant="body2"
+                        component="code"
+                        sx={{ flexGrow: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}
+                      >
+                        {key}
+                      </Typography>
+                      <Chip label={results.length.toLocaleString()} size="small" sx={{ mr: 1 }} />
+                    </AccordionSummary>
+                    <AccordionDetails sx={{ overflowX: 'auto' }}>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Focus node</TableCell>
+                            <TableCell>Path</TableCell>
+                            <TableCell>Constraint</TableCell>
+                            <TableCell>Value</TableCell>
+                            <TableCell>Message</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {results.map((result, index) => (
+                            <TableRow key={index}>
+                              <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem', whiteSpace: 'nowrap' }}>
+                                {termText(result.focusNode, shortenUri)}
+                                {result.focusNode.termType === 'NamedNode' && (
+                                  <IconButton
+                                    size="small"
+                                    aria-label="open in graph browser"
+                                    onClick={() => onOpenNode(result.focusNode.value)}
+                                  >
+                                    <OpenInNewIcon fontSize="small" />
+                                  </IconButton>
+                                )}
+                              </TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                                {result.path && `${result.inversePath ? '^' : ''}${shortenUri(result.path)}`}
+                              </TableCell>
+                              <TableCell sx={{ fontSize: '0.8rem' }}>{shortenUri(result.component)}</TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+                                {result.value && termText(result.value, shortenUri)}
+                              </TableCell>
+                              <TableCell sx={{ fontSize: '0.8rem' }}>
+                                {result.severity !== 'Violation' && (
+                                  <Chip label={result.severity} size="small" variant="outlined" sx={{ mr: 0.5 }} />
+                                )}
+                                {result.message}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </AccordionDetails>
+                  </Accordion>
+                ))}
+                {groups.length > MAX_GROUPS && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    {(groups.length - MAX_GROUPS).toLocaleString()} more groups not shown
+                  </Typography>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, LinearProgress, Typography } from '@mui/material';
+import PolicyIcon from '@mui/icons-material/Policy';
+import type { DatasetHandle } from '../services/datasetClient';
+import type { ClassInfo } from '../services/classDiscovery';
+import { inferShapes } from '../services/shaclInference';
+import type { ShapeInferenceProgress } from '../services/shaclInference';
+import { usePrefixStore } from '../stores/prefixStore';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { saveFile } from '../utils/saveFile';
+
+interface ShapeInferencePanelProps {
+  dataset: DatasetHandle;
+  classes: ClassInfo[];
+  fileName?: string;
+}
+
+const MAX_INSTANCES_PER_CLASS = 1000;
+
+export function ShapeInferencePanel({ dataset, classes, fileName }: ShapeInferencePanelProps) {
+  const shortenUri = useShortenIri();
+  const prefixes = usePrefixStore((state) => state.prefixes);
+  const [shapes, setShapes] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ShapeInferenceProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running inference on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleInfer = useCallback(async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setShapes(null);
+    setProgress({
+      classIri: classes[0].uri,
+      classIndex: 0,
+      classCount: classes.length,
+      processedInstances: 0,
+      totalInstances: 0,
+    });
+    try {
+      const turtle = await inferShapes(
+        dataset,
+        classes.map((classInfo) => classInfo.uri),
+        {
+          maxInstancesPerClass: MAX_INSTANCES_PER_CLASS,
+          prefixes,
+          signal: controller.signal,
+          onProgress: (update) => {
+            if (!controller.signal.aborted) setProgress(update);
+          },
+        }
+      );
+      setShapes(turtle);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error inferring shapes:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [dataset, classes, prefixes]);
+
+  const handleDownload = () => {
+    if (!shapes) return;
+    const baseName = (fileName ?? 'dataset').replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    saveFile(shapes, `${baseName}.shapes.ttl`, 'text/turtle');
+  };
+
+  const inferring = progress !== null;
+  const percent =
+    progress && progress.classCount > 0
+      ? ((progress.classIndex +
+          (progress.totalInstances > 0 ? progress.processedInstances / progress.totalInstances : 0)) /
+          progress.classCount) *
+        100
+      : 0;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 1 }}>
+          <PolicyIcon sx={{ color: 'primary.main' }} />
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>
+            SHACL Shapes
+          </Typography>
+          {inferring ? (
+            <Button variant="outlined" color="error" size="small" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outlined" size="small" onClick={handleInfer} disabled={classes.length === 0}>
+              {shapes ? 'Infer Again' : 'Infer Shapes'}
+            </Button>
+          )}
+          {shapes && !inferring && (
+            <Button variant="contained" size="small" onClick={handleDownload}>
+              Download Turtle
+            </Button>
+          )}
+        </Box>
+
+        {!shapes && !inferring && (
+          <Typography variant="body2" color="text.secondary">
+            Derive a node shape for each of the {classes.length.toLocaleString()} discovered classes from
+            up to {MAX_INSTANCES_PER_CLASS.toLocaleString()} of its instances: the predicates they use,
+            cardinalities, node kinds, datatypes and the classes of linked resources.
+          </Typography>
+        )}
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            Failed to infer shapes: {error}
+          </Typography>
+        )}
+
+        {progress && (
+          <>
+            <LinearProgress variant="determinate" value={Math.min(100, percent)} sx={{ mb: 1 }} />
+            <Typography variant="body2" color="text.secondary">
+              Class {progress.classIndex + 1} of {progress.classCount}: {shortenUri(progress.classIri)} (
+              {progress.processedInstances.toLocaleString()} of {progress.totalInstances.toLocaleString()}{' '}
+              instances)
+            </Typography>
+          </>
+        )}
+
+        {shapes && (
+          <Box
+            component="pre"
+            sx={{
+              maxHeight: 480,
+              overflow: 'auto',
+              m: 0,
+              p: 2,
+              fontSize: '0.8rem',
+              bgcolor: 'action.hover',
+              borderRadius: 1,
+            }}
+          >
+            {shapes}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,13 +9,16 @@ import {
 } from '@mui/material';
 import { RichTreeView } from '@mui/x-tree-view/RichTreeView';
 import type { TreeViewBaseItem } from '@mui/x-tree-view/models';
-import type { HdtDataset } from '@graviola/hdt-rdfjs-dataset';
+import type { DatasetHandle } from '../services/datasetClient';
 import factory from '@rdfjs/data-model';
+import { useShortenIri } from '../hooks/useShortenIri';
+import { useResolveLabel } from '../hooks/useLabel';
+import { resourceKey, resourceTerm } from '../utils/resourceKey';
 import AccountTreeIcon from '@mui/icons-material/AccountTree';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 
 interface SpecializedGraphBrowserProps {
-  dataset: HdtDataset | null;
+  dataset: DatasetHandle | null;
   startNodeIri: string;
   predicateIri: string;
   direction: 'in' | 'out';
@@ -23,42 +26,9 @@ interface SpecializedGraphBrowserProps {
 }
 
 interface SpecializedNode {
-  iri: string;
-  label?: string; // rdfs:label if available
+  iri: string; // IRI, or "_:label" for blank nodes
   loaded: boolean;
-  children?: string[]; // Child node IRIs
-}
-
-// Helper to shorten URIs for display
-function shortenUri(uri: string): string {
-  const prefixMap: Record<string, string> = {
-    'http://www.w3.org/2000/01/rdf-schema#': 'rdfs:',
-    'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf:',
-    'http://www.w3.org/2002/07/owl#': 'owl:',
-    'http://www.w3.org/2004/02/skos/core#': 'skos:',
-    'http://xmlns.com/foaf/0.1/': 'foaf:',
-    'http://schema.org/': 'schema:',
-  };
-
-  for (const [fullPrefix, shortPrefix] of Object.entries(prefixMap)) {
-    if (uri.startsWith(fullPrefix)) {
-      return uri.replace(fullPrefix, shortPrefix);
-    }
-  }
-
-  // Try to extract a reasonable short form
-  const match = uri.match(/^(.+[/#])([^/#]+)$/);
-  if (match) {
-    const [, prefix, localName] = match;
-    const parts = prefix.split('/');
-    const lastPart = parts[parts.length - 1] || parts[parts.length - 2];
-    if (lastPart) {
-      return `${lastPart}:${localName}`;
-    }
-  }
-
-  // Fallback: show last 50 chars
-  return uri.length > 50 ? `...${uri.slice(-50)}` : uri;
+  children?: string[]; // Child node IRIs or blank node keys
 }
 
 export function SpecializedGraphBrowser({
@@ -68,45 +38,27 @@ export function SpecializedGraphBrowser({
   direction,
   onClose,
 }: SpecializedGraphBrowserProps) {
+  const shortenUri = useShortenIri();
+  const resolveLabel = useResolveLabel();
   const [nodes, setNodes] = useState<Map<string, SpecializedNode>>(new Map());
   const [loading, setLoading] = useState(false);
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
 
-  const rdfsLabel = factory.namedNode('http://www.w3.org/2000/01/rdf-schema#label');
   const predicateNode = factory.namedNode(predicateIri);
 
-  // Load rdfs:label for a node
-  const loadLabel = useCallback(
-    async (iri: string): Promise<string | undefined> => {
-      if (!dataset) return undefined;
-
-      const subject = factory.namedNode(iri);
-      const matches = dataset.match(subject, rdfsLabel, null);
-      
-      // Get first literal label
-      for (const quad of matches) {
-        if (quad.object.termType === 'Literal') {
-          return quad.object.value;
-        }
-      }
-      return undefined;
-    },
-    [dataset]
-  );
-
   // Load children following the predicate
   const loadChildren = useCallback(
     async (iri: string): Promise<string[]> => {
       if (!dataset) return [];
 
-      const subject = factory.namedNode(iri);
-      const matches = dataset.match(subject, predicateNode, null);
+      const subject = resourceTerm(iri);
+      const matches = await dataset.match(subject, predicateNode, null);
       
       const children: string[] = [];
       for (const quad of matches) {
-        // Only include named nodes (not literals)
-        if (quad.object.termType === 'NamedNode') {
-          children.push(quad.object.value);
+        // Only include named nodes and blank nodes (not literals)
+        if (quad.object.termType === 'NamedNode' || quad.object.termType === 'BlankNode') {
+          children.push(resourceKey(quad.object));
         }
       }
       return children;
@@ -119,14 +71,14 @@ export function SpecializedGraphBrowser({
     async (iri: string): Promise<string[]> => {
       if (!dataset) return [];
 
-      const object = factory.namedNode(iri);
-      const matches = dataset.match(null, predicateNode, object);
+      const object = resourceTerm(iri);
+      const matches = await dataset.match(null, predicateNode, object);
       
       const parents: string[] = [];
       for (const quad of matches) {
-        // Only include named nodes
-        if (quad.subject.termType === 'NamedNode') {
-          parents.push(quad.subject.value);
+        // Include named nodes and blank nodes
+        if (quad.subject.termType === 'NamedNode' || quad.subject.termType === 'BlankNode') {
+          parents.push(resourceKey(quad.subject));
         }
       }
       return parents;
@@ -149,11 +101,7 @@ export function SpecializedGraphBrowser({
           return prevNodes;
         });
 
-        // Load label and children/parents in parallel
-        const [label, relatedNodes] = await Promise.all([
-          loadLabel(iri),
-          direction === 'out' ? loadChildren(iri) : loadParents(iri),
-        ]);
+        const relatedNodes = await (direction === 'out' ? loadChildren(iri) : loadParents(iri));
 
         setNodes((prevNodes) => {
           // Double-check we haven't loaded it in the meantime
@@ -165,38 +113,15 @@ export function SpecializedGraphBrowser({
           const newNodes = new Map(prevNodes);
           newNodes.set(iri, {
             iri,
-            label,
             loaded: true,
             children: relatedNodes,
           });
 
-          // Recursively load labels for children (but not their children yet - lazy load)
-          if (relatedNodes.length > 0) {
-            // Load labels asynchronously after setting the node
-            Promise.all(relatedNodes.map((childIri) => loadLabel(childIri)))
-              .then((labels) => {
-                setNodes((currentNodes) => {
-                  const updatedNodes = new Map(currentNodes);
-                  labels.forEach((lbl, index) => {
-                    const childIri = relatedNodes[index];
-                    const existing = updatedNodes.get(childIri);
-                    if (existing) {
-                      updatedNodes.set(childIri, {
-                        ...existing,
-                        label: lbl,
-                      });
-                    } else {
-                      updatedNodes.set(childIri, {
-                        iri: childIri,
-                        label: lbl,
-                        loaded: false,
-                      });
-                    }
-                  });
-                  return updatedNodes;
-                });
-              })
-              .catch(console.error);
+          // Add the children, but not their children yet - lazy load
+          for (const childIri of relatedNodes) {
+            if (!newNodes.has(childIri)) {
+              newNodes.set(childIri, { iri: childIri, loaded: false });
+            }
           }
 
           return newNodes;
@@ -207,7 +132,7 @@ export function SpecializedGraphBrowser({
         setLoading(false);
       }
     },
-    [dataset, direction, loadLabel, loadChildren, loadParents]
+    [dataset, direction, loadChildren, loadParents]
   );
 
   // Initialize with start node
@@ -260,10 +185,10 @@ export function SpecializedGraphBrowser({
       const node = nodes.get(iri);
       if (!node) return null;
 
-      // Create label: abbreviated IRI on left, rdfs:label on right if available
+      // Create label: abbreviated IRI on left, resolved label on right if available
       // We'll use a custom format that CSS can style
       const iriPart = shortenUri(iri);
-      const labelPart = node.label || '';
+      const labelPart = resolveLabel(iri) || '';
 
       const children: TreeViewBaseItem[] = [];
       if (node.children && node.children.length > 0) {
@@ -299,7 +224,7 @@ export function SpecializedGraphBrowser({
 
     const rootItem = buildTreeItem(startNodeIri);
     return rootItem ? [rootItem] : [];
-  }, [nodes, startNodeIri]);
+  }, [nodes, startNodeIri, shortenUri, resolveLabel]);
 
   if (!dataset) {
     return null;
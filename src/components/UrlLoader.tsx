@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import {
+  Box,
+  Paper,
+  TextField,
+  Button,
+  Typography,
+  LinearProgress,
+} from '@mui/material';
+import LinkIcon from '@mui/icons-material/Link';
+import type { DownloadProgress } from '../utils/fetchWithProgress';
+import { formatBytes } from '../utils/format';
+
+interface UrlLoaderProps {
+  onLoadUrl: (url: string) => Promise<void>;
+  onCancel: () => void;
+  loading: boolean;
+  progress: DownloadProgress | null;
+  initialUrl?: string;
+}
+
+export function UrlLoader({
+  onLoadUrl,
+  onCancel,
+  loading,
+  progress,
+  initialUrl = '',
+}: UrlLoaderProps) {
+  const [url, setUrl] = useState(initialUrl);
+
+  const handleSubmit = () => {
+    if (!url.trim() || loading) return;
+    onLoadUrl(url.trim()).catch(console.error);
+  };
+
+  const percent =
+    progress?.total && progress.total > 0
+      ? Math.min(100, (progress.loaded / progress.total) * 100)
+      : undefined;
+
+  return (
+    <Paper elevation={2} sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <LinkIcon sx={{ mr: 1, color: 'primary.main' }} />
+        <Typography variant="subtitle1">Open from URL</Typography>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <TextField
+          label="Dataset URL"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.org/data/dataset.hdt"
+          fullWidth
+          size="small"
+          disabled={loading}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleSubmit();
+            }
+          }}
+        />
+        {progress ? (
+          <Button variant="outlined" color="error" onClick={onCancel} sx={{ minWidth: 120 }}>
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={loading || !url.trim()}
+            sx={{ minWidth: 120 }}
+          >
+            Open
+          </Button>
+        )}
+      </Box>
+      {progress && (
+        <Box sx={{ mt: 2 }}>
+          <LinearProgress
+            variant={percent !== undefined ? 'determinate' : 'indeterminate'}
+            value={percent}
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+            Downloaded {formatBytes(progress.loaded)}
+            {progress.total !== undefined && ` of ${formatBytes(progress.total)}`}
+            {percent !== undefined && ` (${percent.toFixed(0)}%)`}
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  );
+}
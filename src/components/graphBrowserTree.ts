@@ -0,0 +1,34 @@
+// Shape of the graph browser's tree, shared with the history store that
+// saves it for each visited root
+
+export type NodeId = string;
+export type NodeType = 'root' | 'in' | 'out' | 'predicate' | 'object';
+
+export interface LiteralInfo {
+  value: string;
+  datatype: string;
+  language: string;
+}
+
+export interface NodeData {
+  type: NodeType;
+  iri: string; // IRI, or "_:label" for blank nodes
+  isBlank?: boolean; // Blank node objects expand inline to their outgoing predicates
+  predicate?: string;
+  loaded: boolean;
+  children?: NodeId[];
+  parentType?: 'in' | 'out'; // Track if predicate is under 'in' or 'out'
+  isLiteral?: boolean; // Track if this is a literal value
+  literal?: LiteralInfo; // Store the literal if it's a literal
+  singleLiteral?: LiteralInfo; // If predicate has single literal, store it here
+  totalCount?: number; // For predicates: number of triples behind the node
+  loadedCount?: number; // For predicates: how many of those triples have been fetched
+  parentNodeId?: NodeId; // Track parent node ID for unique path-based IDs
+  sources?: string[]; // Datasets the triple(s) came from, when browsing a union
+}
+
+// Tree and expansion state saved with each history entry
+export interface BrowserTree {
+  nodes: Map<NodeId, NodeData>;
+  expandedItems: string[];
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DatasetHandle } from '../services/datasetClient';
+import { profileDataset } from '../services/datasetProfile';
+import type { DatasetProfile } from '../services/datasetProfile';
+
+// Runs a cancellable profiling pass and exposes its partial results while it runs
+export function useDatasetProfile(dataset: DatasetHandle | null) {
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [profiling, setProfiling] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running pass when the dataset is replaced or the app unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, [dataset]);
+
+  // Resolves when the pass finished or was cancelled; rejects on failure
+  const startProfile = useCallback(async () => {
+    if (!dataset) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setProfiling(true);
+    setProfile(null);
+    try {
+      await profileDataset(dataset, {
+        signal: controller.signal,
+        onProgress: (partial) => {
+          if (!controller.signal.aborted) setProfile(partial);
+        },
+      });
+    } catch (err) {
+      // Cancelled - keep the partial profile on screen
+      if (controller.signal.aborted) return;
+      throw err;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProfiling(false);
+      }
+    }
+  }, [dataset]);
+
+  const cancelProfile = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const resetProfile = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProfiling(false);
+    setProfile(null);
+  }, []);
+
+  return { profile, profiling, startProfile, cancelProfile, resetProfile };
+}
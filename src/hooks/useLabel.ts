@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { useLabelStore } from '../stores/labelStore';
+import { useShortenIri } from './useShortenIri';
+
+// Label of a resource from the shared label store, or undefined while it is
+// being resolved or when the resource has none
+export function useResolveLabel() {
+  const labels = useLabelStore((state) => state.labels);
+  const requestLabel = useLabelStore((state) => state.requestLabel);
+  return useCallback(
+    (resource: string): string | undefined => {
+      const label = labels.get(resource);
+      if (label === undefined) requestLabel(resource);
+      return label ?? undefined;
+    },
+    [labels, requestLabel]
+  );
+}
+
+// Label of a resource, falling back to its shortened IRI
+export function useDisplayLabel() {
+  const resolveLabel = useResolveLabel();
+  const shortenUri = useShortenIri();
+  return useCallback(
+    (resource: string): string => resolveLabel(resource) ?? shortenUri(resource),
+    [resolveLabel, shortenUri]
+  );
+}
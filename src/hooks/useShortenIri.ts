@@ -0,0 +1,9 @@
+import { useCallback } from 'react';
+import { shortenIri } from '../services/namespaces';
+import { usePrefixStore } from '../stores/prefixStore';
+
+// IRI shortening driven by the shared prefix store
+export function useShortenIri() {
+  const prefixes = usePrefixStore((state) => state.prefixes);
+  return useCallback((iri: string) => shortenIri(iri, prefixes), [prefixes]);
+}
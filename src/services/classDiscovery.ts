@@ -0,0 +1,73 @@
+import factory from '@rdfjs/data-model';
+import type { DatasetHandle } from './datasetClient';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const CLASS_TYPES = ['http://www.w3.org/2000/01/rdf-schema#Class', 'http://www.w3.org/2002/07/owl#Class'];
+
+export interface ClassInfo {
+  uri: string;
+  instanceCount: number;
+  // Typed rdfs:Class or owl:Class in the dataset itself
+  declared: boolean;
+}
+
+export interface TypeScanProgress {
+  processed: number;
+  total: number;
+}
+
+interface TypeScanOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: TypeScanProgress) => void;
+}
+
+// Resources that are declared as rdfs:Class or owl:Class
+export async function findDeclaredClasses(dataset: DatasetHandle): Promise<Set<string>> {
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const matches = await Promise.all(
+    CLASS_TYPES.map((classType) => dataset.match(null, rdfType, factory.namedNode(classType)))
+  );
+  const classUris = new Set<string>();
+  for (const quads of matches) {
+    for (const quad of quads) {
+      classUris.add(quad.subject.value);
+    }
+  }
+  return classUris;
+}
+
+/**
+ * Find every class used as the object of rdf:type, declared or not.
+ *
+ * Counts come from the same pass over the rdf:type triples. Declared classes
+ * without instances are listed with a count of zero.
+ */
+export async function discoverTypedClasses(
+  dataset: DatasetHandle,
+  { signal, onProgress }: TypeScanOptions = {}
+): Promise<ClassInfo[]> {
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const declared = await findDeclaredClasses(dataset);
+  const total = await dataset.countMatches(null, rdfType, null);
+  const counts = new Map<string, number>();
+  let processed = 0;
+  onProgress?.({ processed, total });
+
+  for await (const page of dataset.iterate(null, rdfType, null)) {
+    signal?.throwIfAborted();
+    for (const quad of page) {
+      if (quad.object.termType === 'NamedNode') {
+        counts.set(quad.object.value, (counts.get(quad.object.value) ?? 0) + 1);
+      }
+    }
+    processed += page.length;
+    onProgress?.({ processed, total });
+  }
+
+  for (const uri of declared) {
+    if (!counts.has(uri)) counts.set(uri, 0);
+  }
+  return Array.from(counts, ([uri, instanceCount]) => ({ uri, instanceCount, declared: declared.has(uri) })).sort(
+    (a, b) => b.instanceCount - a.instanceCount || a.uri.localeCompare(b.uri)
+  );
+}
@@ -0,0 +1,201 @@
+import factory from '@rdfjs/data-model';
+import type { DatasetHandle } from './datasetClient';
+
+const RDFS_SUBCLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
+export interface ClassNode {
+  iri: string;
+  // Instances typed with exactly this class
+  directCount: number;
+  // Instances of this class and all of its subclasses
+  transitiveCount: number;
+  parents: string[];
+  children: string[];
+  // Listed class that takes part in no rdfs:subClassOf statement
+  orphan: boolean;
+  // Class that is its own (indirect) subclass
+  cyclic: boolean;
+}
+
+export interface ClassHierarchy {
+  classes: Map<string, ClassNode>;
+  // Classes without superclasses, plus one entry per cycle that has no way in from outside
+  roots: string[];
+  subClassOfCount: number;
+}
+
+interface ListedClass {
+  uri: string;
+  instanceCount: number;
+}
+
+// Tarjan's algorithm; returns the members of every cycle (including self loops)
+function findCyclicClasses(classes: Map<string, ClassNode>): Set<string> {
+  const cyclic = new Set<string>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  let counter = 0;
+
+  // Iterative to survive deep hierarchies without exhausting the call stack
+  for (const start of classes.keys()) {
+    if (index.has(start)) continue;
+    const work: Array<{ iri: string; next: number }> = [{ iri: start, next: 0 }];
+    index.set(start, counter);
+    lowLink.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const children = classes.get(frame.iri)!.children;
+      if (frame.next < children.length) {
+        const child = children[frame.next++];
+        if (!index.has(child)) {
+          index.set(child, counter);
+          lowLink.set(child, counter++);
+          stack.push(child);
+          onStack.add(child);
+          work.push({ iri: child, next: 0 });
+        } else if (onStack.has(child)) {
+          lowLink.set(frame.iri, Math.min(lowLink.get(frame.iri)!, index.get(child)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].iri;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.iri)!));
+      }
+      if (lowLink.get(frame.iri) === index.get(frame.iri)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.iri);
+        if (component.length > 1 || children.includes(frame.iri)) {
+          component.forEach((iri) => cyclic.add(iri));
+        }
+      }
+    }
+  }
+  return cyclic;
+}
+
+// All classes below (and including) the given class, each visited once
+function descendantsOf(classes: Map<string, ClassNode>, iri: string): Set<string> {
+  const seen = new Set<string>([iri]);
+  const queue = [iri];
+  while (queue.length > 0) {
+    for (const child of classes.get(queue.pop()!)!.children) {
+      if (!seen.has(child)) {
+        seen.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Arrange classes into the hierarchy given by rdfs:subClassOf.
+ *
+ * Classes that only appear in subClassOf statements are added with their own
+ * instance counts. Transitive counts add up the direct counts of every class
+ * below a class once, so diamonds from multiple inheritance and cycles are not
+ * counted twice; an instance typed with several of those classes still counts
+ * once per class.
+ */
+export async function buildClassHierarchy(
+  dataset: DatasetHandle,
+  listed: ListedClass[],
+  signal?: AbortSignal
+): Promise<ClassHierarchy> {
+  const classes = new Map<string, ClassNode>();
+  const listedIris = new Set<string>();
+  const addClass = (iri: string, directCount = 0) => {
+    let node = classes.get(iri);
+    if (!node) {
+      node = { iri, directCount, transitiveCount: 0, parents: [], children: [], orphan: false, cyclic: false };
+      classes.set(iri, node);
+    }
+    return node;
+  };
+  for (const { uri, instanceCount } of listed) {
+    addClass(uri, instanceCount);
+    listedIris.add(uri);
+  }
+
+  const subClassOf = factory.namedNode(RDFS_SUBCLASS_OF);
+  let subClassOfCount = 0;
+  const unlisted = new Set<string>();
+  for await (const page of dataset.iterate(null, subClassOf, null)) {
+    signal?.throwIfAborted();
+    for (const quad of page) {
+      // Anonymous class expressions (restrictions, unions) are not part of the tree
+      if (quad.subject.termType !== 'NamedNode' || quad.object.termType !== 'NamedNode') continue;
+      const child = quad.subject.value;
+      const parent = quad.object.value;
+      for (const iri of [child, parent]) {
+        if (!classes.has(iri)) unlisted.add(iri);
+      }
+      const childNode = addClass(child);
+      const parentNode = addClass(parent);
+      if (!childNode.parents.includes(parent)) {
+        childNode.parents.push(parent);
+        parentNode.children.push(child);
+        subClassOfCount++;
+      }
+    }
+  }
+
+  // Count instances of classes that were only found through subClassOf
+  const rdfType = factory.namedNode(RDF_TYPE);
+  await Promise.all(
+    Array.from(unlisted, async (iri) => {
+      classes.get(iri)!.directCount = await dataset.countMatches(null, rdfType, factory.namedNode(iri));
+    })
+  );
+  signal?.throwIfAborted();
+
+  const cyclic = findCyclicClasses(classes);
+  for (const node of classes.values()) {
+    node.cyclic = cyclic.has(node.iri);
+    node.orphan = listedIris.has(node.iri) && node.parents.length === 0 && node.children.length === 0;
+    let total = 0;
+    for (const iri of descendantsOf(classes, node.iri)) {
+      total += classes.get(iri)!.directCount;
+    }
+    node.transitiveCount = total;
+  }
+
+  const roots = Array.from(classes.values())
+    .filter((node) => node.parents.length === 0)
+    .map((node) => node.iri);
+
+  // A cycle nobody points into would otherwise be unreachable from the roots
+  const reachable = new Set<string>();
+  for (const root of roots) {
+    descendantsOf(classes, root).forEach((iri) => reachable.add(iri));
+  }
+  for (const node of classes.values()) {
+    if (!reachable.has(node.iri)) {
+      roots.push(node.iri);
+      descendantsOf(classes, node.iri).forEach((iri) => reachable.add(iri));
+    }
+  }
+
+  const byCount = (a: string, b: string) =>
+    classes.get(b)!.transitiveCount - classes.get(a)!.transitiveCount || a.localeCompare(b);
+  roots.sort(byCount);
+  for (const node of classes.values()) {
+    node.children.sort(byCount);
+  }
+
+  return { classes, roots, subClassOfCount };
+}
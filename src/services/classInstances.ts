@@ -0,0 +1,94 @@
+import factory from '@rdfjs/data-model';
+import type { Quad } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
+export interface PropertyColumn {
+  iri: string;
+  // Share of the sampled instances that have the property
+  coverage: number;
+}
+
+export interface PropertyCell {
+  // First value found; IRIs are kept apart from literals for shortening
+  value: string;
+  isIri: boolean;
+  count: number;
+}
+
+export interface InstanceRow {
+  subject: Quad['subject'];
+  cells: Record<string, PropertyCell>;
+}
+
+// Instances of a class in match order, one page at a time
+export async function fetchInstancePage(
+  dataset: DatasetHandle,
+  classIri: string,
+  offset: number,
+  limit: number
+): Promise<Quad['subject'][]> {
+  const quads = await dataset.match(null, factory.namedNode(RDF_TYPE), factory.namedNode(classIri), {
+    offset,
+    limit,
+  });
+  return quads.map((quad) => quad.subject);
+}
+
+// Outgoing triples fetched per instance; a few subjects can have huge numbers
+// of them, which the table only shows as a count anyway
+const MAX_TRIPLES_PER_INSTANCE = 1000;
+
+// Values of every property for each instance; the subject's outgoing triples are fetched once
+export async function loadInstanceRows(
+  dataset: DatasetHandle,
+  subjects: Quad['subject'][]
+): Promise<InstanceRow[]> {
+  return Promise.all(
+    subjects.map(async (subject) => {
+      const cells: Record<string, PropertyCell> = {};
+      const quads = await dataset.match(subject, null, null, { limit: MAX_TRIPLES_PER_INSTANCE });
+      for (const quad of quads) {
+        const cell = cells[quad.predicate.value];
+        if (cell) {
+          cell.count++;
+        } else {
+          cells[quad.predicate.value] = {
+            value: quad.object.value,
+            isIri: quad.object.termType === 'NamedNode',
+            count: 1,
+          };
+        }
+      }
+      // Past the cap, count the values of the properties seen instead of fetching them
+      if (quads.length >= MAX_TRIPLES_PER_INSTANCE) {
+        await Promise.all(
+          Object.entries(cells).map(async ([predicate, cell]) => {
+            cell.count = await dataset.countMatches(subject, factory.namedNode(predicate), null);
+          })
+        );
+      }
+      return { subject, cells };
+    })
+  );
+}
+
+/**
+ * Pick the columns for a class: the properties most instances have.
+ *
+ * Coverage is measured on already loaded rows, normally the first page, so
+ * it only needs the triples the table fetches anyway. rdf:type is left out
+ * since every row has it.
+ */
+export function commonProperties(rows: InstanceRow[], limit: number): PropertyColumn[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (const predicate of Object.keys(row.cells)) {
+      if (predicate !== RDF_TYPE) counts.set(predicate, (counts.get(predicate) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([iri, count]) => ({ iri, coverage: rows.length > 0 ? count / rows.length : 0 }))
+    .sort((a, b) => b.coverage - a.coverage || a.iri.localeCompare(b.iri))
+    .slice(0, limit);
+}
@@ -0,0 +1,232 @@
+import factory from '@rdfjs/data-model';
+import type { Quad } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { increment, sortedEntries } from '../utils/frequency';
+import type { FrequencyEntry } from '../utils/frequency';
+import { toCsv } from '../utils/csv';
+import { resourceKey } from '../utils/resourceKey';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
+export interface PropertyUsage {
+  predicate: string;
+  // Instances with at least one value
+  instances: number;
+  triples: number;
+  // Values per instance; instances without the property count as 0
+  minCardinality: number;
+  maxCardinality: number;
+  objectKinds: {
+    iri: number;
+    blankNode: number;
+    literal: number;
+  };
+  datatypes: FrequencyEntry[];
+  languages: FrequencyEntry[];
+  // rdf:type of IRI and blank node objects; only filled with resolveObjectClasses
+  objectClasses: FrequencyEntry[];
+}
+
+export interface ClassPropertyProfile {
+  classIri: string;
+  totalInstances: number;
+  processedInstances: number;
+  complete: boolean;
+  properties: PropertyUsage[];
+}
+
+interface ClassProfileOptions {
+  signal?: AbortSignal;
+  onProgress?: (profile: ClassPropertyProfile) => void;
+  pageSize?: number;
+  // Stop after this many instances, e.g. to sample large classes
+  maxInstances?: number;
+  // Look up the classes of the objects, once per object
+  resolveObjectClasses?: boolean;
+}
+
+interface UsageTally {
+  instances: number;
+  triples: number;
+  // Smallest count among the instances that have the property
+  minPresent: number;
+  maxCardinality: number;
+  objectKinds: PropertyUsage['objectKinds'];
+  datatypes: Map<string, number>;
+  languages: Map<string, number>;
+  objectClasses: Map<string, number>;
+}
+
+// Values per processed instance, counting instances without the property as 0
+export function averageCardinality(usage: PropertyUsage, profile: ClassPropertyProfile): number {
+  return profile.processedInstances > 0 ? usage.triples / profile.processedInstances : 0;
+}
+
+/**
+ * Profile the properties used by the instances of one class.
+ *
+ * Instances are read page by page from the rdf:type triples, and each
+ * instance's outgoing triples are fetched once. Like profileDataset, aborting
+ * stops between pages; the last reported profile then stays incomplete.
+ */
+export async function profileClassProperties(
+  dataset: DatasetHandle,
+  classIri: string,
+  { signal, onProgress, pageSize = 200, maxInstances = Infinity, resolveObjectClasses = false }: ClassProfileOptions = {}
+): Promise<ClassPropertyProfile> {
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const classTerm = factory.namedNode(classIri);
+  const totalInstances = await dataset.countMatches(null, rdfType, classTerm);
+  const tallies = new Map<string, UsageTally>();
+  // A subject typed twice with the class is still one instance
+  const seen = new Set<string>();
+  const classesOf = new Map<string, string[]>();
+  let processedInstances = 0;
+
+  const snapshot = (complete: boolean): ClassPropertyProfile => ({
+    classIri,
+    totalInstances,
+    processedInstances,
+    complete,
+    properties: Array.from(tallies, ([predicate, tally]) => ({
+      predicate,
+      instances: tally.instances,
+      triples: tally.triples,
+      minCardinality: tally.instances < processedInstances ? 0 : tally.minPresent,
+      maxCardinality: tally.maxCardinality,
+      objectKinds: { ...tally.objectKinds },
+      datatypes: sortedEntries(tally.datatypes),
+      languages: sortedEntries(tally.languages),
+      objectClasses: sortedEntries(tally.objectClasses),
+    })).sort((a, b) => b.instances - a.instances || a.predicate.localeCompare(b.predicate)),
+  });
+
+  const addInstance = (quads: Quad[]) => {
+    const perPredicate = new Map<string, number>();
+    for (const quad of quads) {
+      const predicate = quad.predicate.value;
+      increment(perPredicate, predicate);
+      let tally = tallies.get(predicate);
+      if (!tally) {
+        tally = {
+          instances: 0,
+          triples: 0,
+          minPresent: Infinity,
+          maxCardinality: 0,
+          objectKinds: { iri: 0, blankNode: 0, literal: 0 },
+          datatypes: new Map(),
+          languages: new Map(),
+          objectClasses: new Map(),
+        };
+        tallies.set(predicate, tally);
+      }
+      tally.triples++;
+      if (quad.object.termType === 'Literal') {
+        tally.objectKinds.literal++;
+        increment(tally.datatypes, quad.object.datatype.value);
+        if (quad.object.language) {
+          increment(tally.languages, quad.object.language);
+        }
+      } else {
+        if (quad.object.termType === 'BlankNode') {
+          tally.objectKinds.blankNode++;
+        } else {
+          tally.objectKinds.iri++;
+        }
+        for (const objectClass of classesOf.get(resourceKey(quad.object)) ?? []) {
+          increment(tally.objectClasses, objectClass);
+        }
+      }
+    }
+    for (const [predicate, count] of perPredicate) {
+      const tally = tallies.get(predicate)!;
+      tally.instances++;
+      tally.minPresent = Math.min(tally.minPresent, count);
+      tally.maxCardinality = Math.max(tally.maxCardinality, count);
+    }
+    processedInstances++;
+  };
+
+  // Fill classesOf for objects that have not been looked up yet
+  const resolveClasses = async (objects: Quad['object'][]) => {
+    const pending = new Map<string, Quad['object']>();
+    for (const object of objects) {
+      const key = resourceKey(object);
+      if (object.termType !== 'Literal' && !classesOf.has(key)) pending.set(key, object);
+    }
+    await Promise.all(
+      Array.from(pending, async ([key, object]) => {
+        const types = await dataset.match(object, rdfType, null);
+        classesOf.set(
+          key,
+          types.filter((quad) => quad.object.termType === 'NamedNode').map((quad) => quad.object.value)
+        );
+      })
+    );
+  };
+
+  signal?.throwIfAborted();
+  onProgress?.(snapshot(false));
+
+  for await (const page of dataset.iterate(null, rdfType, classTerm, pageSize)) {
+    signal?.throwIfAborted();
+    const subjects = page
+      .map((quad) => quad.subject)
+      .filter((subject) => {
+        const key = resourceKey(subject);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, maxInstances - processedInstances);
+    const described = await Promise.all(subjects.map((subject) => dataset.match(subject, null, null)));
+    if (resolveObjectClasses) {
+      await resolveClasses(described.flat().map((quad) => quad.object));
+    }
+    described.forEach(addInstance);
+    onProgress?.(snapshot(false));
+    // Leaving the loop closes the cursor in the worker
+    if (processedInstances >= maxInstances) break;
+  }
+
+  const profile = snapshot(true);
+  onProgress?.(profile);
+  return profile;
+}
+
+// One row per predicate; frequency lists are joined as "value (count)"
+export function classPropertyProfileCsv(profile: ClassPropertyProfile): string {
+  const entries = (list: FrequencyEntry[]) => list.map((entry) => `${entry.value} (${entry.count})`).join('; ');
+  return toCsv([
+    [
+      'predicate',
+      'instances',
+      'coverage',
+      'triples',
+      'min_cardinality',
+      'max_cardinality',
+      'avg_cardinality',
+      'iri_objects',
+      'blank_node_objects',
+      'literal_objects',
+      'datatypes',
+      'languages',
+      'object_classes',
+    ],
+    ...profile.properties.map((usage) => [
+      usage.predicate,
+      usage.instances,
+      profile.processedInstances > 0 ? (usage.instances / profile.processedInstances).toFixed(4) : 0,
+      usage.triples,
+      usage.minCardinality,
+      usage.maxCardinality,
+      averageCardinality(usage, profile).toFixed(2),
+      usage.objectKinds.iri,
+      usage.objectKinds.blankNode,
+      usage.objectKinds.literal,
+      entries(usage.datatypes),
+      entries(usage.languages),
+      entries(usage.objectClasses),
+    ]),
+  ]);
+}
@@ -0,0 +1,118 @@
+// Persistent cache of loaded dataset files in IndexedDB, keyed by content hash.
+// Metadata and file contents live in separate object stores so listing recent
+// datasets never has to read the (potentially very large) file blobs.
+
+import type { RdfFormat } from './rdfFormats';
+
+export interface RecentDataset {
+  hash: string; // SHA-256 of the file contents, hex encoded
+  name: string;
+  size: number;
+  // Format the file was loaded as; entries cached before it was recorded lack it
+  format?: RdfFormat;
+  lastOpened: number;
+}
+
+const DB_NAME = 'hdt-graph-discovery';
+const DB_VERSION = 1;
+const META_STORE = 'datasets';
+const FILE_STORE = 'files';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(FILE_STORE)) {
+          db.createObjectStore(FILE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open dataset cache'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+export async function hashBytes(bytes: Uint8Array): Promise<string> {
+  // Loaded files are never backed by a SharedArrayBuffer
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function listRecentDatasets(): Promise<RecentDataset[]> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const entries = await promisify<RecentDataset[]>(tx.objectStore(META_STORE).getAll());
+  return entries.sort((a, b) => b.lastOpened - a.lastOpened);
+}
+
+export async function isDatasetCached(hash: string): Promise<boolean> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const count = await promisify(tx.objectStore(META_STORE).count(hash));
+  return count > 0;
+}
+
+/**
+ * Record a successfully opened dataset. The file contents are only written
+ * when given, so re-opening a cached file merely updates its timestamp.
+ */
+export async function rememberDataset(
+  entry: Omit<RecentDataset, 'lastOpened'>,
+  contents?: Blob
+): Promise<RecentDataset> {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, FILE_STORE], 'readwrite');
+  const recent: RecentDataset = { ...entry, lastOpened: Date.now() };
+  tx.objectStore(META_STORE).put(recent);
+  if (contents) {
+    tx.objectStore(FILE_STORE).put(contents, entry.hash);
+  }
+  await committed(tx);
+  return recent;
+}
+
+export async function readCachedDataset(hash: string): Promise<Uint8Array | null> {
+  const db = await openDb();
+  const tx = db.transaction(FILE_STORE, 'readonly');
+  const blob = await promisify<Blob | undefined>(tx.objectStore(FILE_STORE).get(hash));
+  if (!blob) return null;
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export async function evictDataset(hash: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, FILE_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(hash);
+  tx.objectStore(FILE_STORE).delete(hash);
+  await committed(tx);
+}
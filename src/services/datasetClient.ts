@@ -0,0 +1,263 @@
+import type { Quad, Term } from '@rdfjs/types';
+import {
+  deserializeQuad,
+  serializePattern,
+} from './datasetProtocol';
+import type { HdtHeaderInfo } from './hdtHeader';
+import { HdtLoadError, workerFailureError } from './hdtLoadError';
+import { RdfParseError } from './rdfParseError';
+import type { RdfFormat } from './rdfFormats';
+import type { ScanKind, ScanPage } from './datasetScans';
+import type { FrequencyEntry } from '../utils/frequency';
+import type {
+  WorkerRequest,
+  WorkerRequestMessage,
+  WorkerResponseMessage,
+  WorkerResults,
+} from './datasetProtocol';
+
+export interface MatchOptions {
+  offset?: number;
+  limit?: number;
+}
+
+// Triples per predicate of a resource
+export interface PredicateCount extends FrequencyEntry {
+  // Datasets the predicate occurs in (union only)
+  sources?: string[];
+}
+
+/**
+ * The query surface shared by a single worker-hosted dataset and the union of
+ * several. Components take this instead of a concrete client.
+ */
+export interface DatasetHandle {
+  header?: HdtHeaderInfo;
+  match(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    options?: MatchOptions
+  ): Promise<Quad[]>;
+  countMatches(subject: Term | null, predicate: Term | null, object: Term | null): Promise<number>;
+  // Triples per predicate matching the subject and object, counted where the
+  // dataset lives so the triples themselves are not transferred
+  countPredicates(subject: Term | null, object: Term | null): Promise<PredicateCount[]>;
+  sizeInBytes(): Promise<number | bigint>;
+  iterate(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    pageSize?: number
+  ): AsyncGenerator<Quad[]>;
+  // Count over all triples, yielding the running totals after every page
+  scan<K extends ScanKind>(kind: K, pageSize?: number): AsyncGenerator<ScanPage<K>>;
+  // Name of the source dataset a quad's graph term stands for (union only)
+  sourceName?(graph: Term): string | undefined;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Async, message-based handle to a dataset hosted in a Web Worker.
+ *
+ * Mirrors the `match`/`countMatches` surface of the RDF/JS dataset, but every
+ * query runs off the main thread and resolves with rehydrated RDF/JS quads.
+ * Large results should be consumed page by page through `iterate`.
+ */
+export class DatasetClient implements DatasetHandle {
+  private worker: Worker;
+  private pending = new Map<number, PendingRequest>();
+  // Set once the worker died (e.g. out of memory); later requests fail fast
+  private failure: Error | null = null;
+  private failureListeners = new Set<(failure: Error) => void>();
+  private nextRequestId = 1;
+  // Size of the loaded file, reported with worker failures
+  private fileSize = 0;
+  // Parsed HDT header section, when the file had a readable one
+  header?: HdtHeaderInfo;
+
+  private constructor() {
+    this.worker = new Worker(new URL('../workers/dataset.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.addEventListener('message', this.handleMessage);
+    this.worker.addEventListener('error', this.handleError);
+  }
+
+  // Spawn a worker and load HDT bytes into it. The bytes are transferred, not copied.
+  static loadHdt(bytes: Uint8Array): Promise<DatasetClient> {
+    return DatasetClient.load(bytes, 'hdt');
+  }
+
+  // Spawn a worker and load a dataset in any supported format into it.
+  // Text formats are parsed into an in-memory store inside the worker.
+  static async load(bytes: Uint8Array, format: RdfFormat): Promise<DatasetClient> {
+    const client = new DatasetClient();
+    client.fileSize = bytes.length;
+    // Only a buffer that belongs to these bytes alone can be transferred
+    const ownBuffer =
+      bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+        ? bytes
+        : bytes.slice();
+    try {
+      // Use BASE_URL to support GitHub Pages deployment with base path
+      const { header } = await client.request(
+        { type: 'load', bytes: ownBuffer, format, wasmSource: `${import.meta.env.BASE_URL}hdt.wasm` },
+        [ownBuffer.buffer]
+      );
+      client.header = header;
+    } catch (err) {
+      client.dispose();
+      throw err;
+    }
+    return client;
+  }
+
+  async match(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    options: MatchOptions = {}
+  ): Promise<Quad[]> {
+    const quads = await this.request({
+      type: 'match',
+      pattern: serializePattern(subject, predicate, object),
+      offset: options.offset,
+      limit: options.limit,
+    });
+    return quads.map(deserializeQuad);
+  }
+
+  countMatches(subject: Term | null, predicate: Term | null, object: Term | null): Promise<number> {
+    return this.request({ type: 'count', pattern: serializePattern(subject, predicate, object) });
+  }
+
+  countPredicates(subject: Term | null, object: Term | null): Promise<PredicateCount[]> {
+    return this.request({ type: 'countPredicates', pattern: serializePattern(subject, null, object) });
+  }
+
+  sizeInBytes(): Promise<number | bigint> {
+    return this.request({ type: 'size' });
+  }
+
+  // Iterate over all matches in pages, keeping a cursor open in the worker
+  async *iterate(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    pageSize: number = 1000
+  ): AsyncGenerator<Quad[]> {
+    const cursorId = await this.request({
+      type: 'openCursor',
+      pattern: serializePattern(subject, predicate, object),
+    });
+    let done = false;
+    try {
+      while (!done) {
+        const page = await this.request({ type: 'nextPage', cursorId, pageSize });
+        done = page.done;
+        if (page.quads.length > 0) {
+          yield page.quads.map(deserializeQuad);
+        }
+      }
+    } finally {
+      // Release the cursor if the consumer stopped early
+      if (!done) {
+        this.request({ type: 'closeCursor', cursorId }).catch(console.error);
+      }
+    }
+  }
+
+  // Run a scan inside the worker; only the running totals are posted back
+  async *scan<K extends ScanKind>(kind: K, pageSize: number = 5000): AsyncGenerator<ScanPage<K>> {
+    const scanId = await this.request({ type: 'openScan', kind });
+    let done = false;
+    try {
+      while (!done) {
+        const page = (await this.request({ type: 'nextScanPage', scanId, pageSize })) as ScanPage<K>;
+        done = page.done;
+        yield page;
+      }
+    } finally {
+      // Release the scan if the consumer stopped early
+      if (!done) {
+        this.request({ type: 'closeScan', scanId }).catch(console.error);
+      }
+    }
+  }
+
+  // Be told when the worker dies; called at once if it already has.
+  // Returns a function that removes the listener.
+  onFailure(listener: (failure: Error) => void): () => void {
+    if (this.failure) {
+      listener(this.failure);
+      return () => {};
+    }
+    this.failureListeners.add(listener);
+    return () => this.failureListeners.delete(listener);
+  }
+
+  // Terminate the worker, freeing the WASM memory held by the dataset
+  dispose() {
+    this.worker.terminate();
+    for (const { reject } of this.pending.values()) {
+      reject(new Error('Dataset was closed'));
+    }
+    this.pending.clear();
+  }
+
+  private request<T extends WorkerRequest>(
+    request: T,
+    transfer: Transferable[] = []
+  ): Promise<WorkerResults[T['type']]> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      const message: WorkerRequestMessage = { id, request };
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  private handleMessage = (event: MessageEvent<WorkerResponseMessage>) => {
+    const response = event.data;
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.ok) {
+      pending.resolve(response.result);
+    } else if (response.error.details) {
+      pending.reject(new HdtLoadError(response.error.details));
+    } else if (response.error.parseDetails) {
+      pending.reject(new RdfParseError(response.error.parseDetails));
+    } else {
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      pending.reject(error);
+    }
+  };
+
+  // Uncaught worker errors (e.g. failing to start or running out of memory)
+  // leave the worker unusable: release it and reject everything in flight
+  private handleError = (event: ErrorEvent) => {
+    const error = workerFailureError(event.message, this.fileSize);
+    this.failure = error;
+    this.worker.terminate();
+    for (const { reject } of this.pending.values()) {
+      reject(error);
+    }
+    this.pending.clear();
+    this.failureListeners.forEach((listener) => listener(error));
+    this.failureListeners.clear();
+  };
+}
@@ -0,0 +1,74 @@
+import type { DatasetHandle } from './datasetClient';
+import type { FrequencyEntry } from '../utils/frequency';
+import type { ScanPage } from './datasetScans';
+
+export interface DatasetProfile {
+  totalTriples: number;
+  processedTriples: number;
+  complete: boolean;
+  distinctSubjects: number;
+  distinctPredicates: number;
+  distinctObjects: number;
+  objectKinds: {
+    iri: number;
+    blankNode: number;
+    literal: number;
+  };
+  topPredicates: FrequencyEntry[];
+  datatypes: FrequencyEntry[];
+  languages: FrequencyEntry[];
+}
+
+interface ProfileOptions {
+  signal?: AbortSignal;
+  // Called with a partial profile after every page
+  onProgress?: (profile: DatasetProfile) => void;
+  pageSize?: number;
+  topPredicateCount?: number;
+}
+
+/**
+ * Profile a dataset in one pass over all triples, counted inside the dataset
+ * worker page by page.
+ *
+ * The total comes from countMatches up front, so progress can be reported as
+ * a fraction; the distinct counts need the full scan. Aborting the signal
+ * stops between pages (closing the worker scan) and rejects with AbortError.
+ */
+export async function profileDataset(
+  dataset: DatasetHandle,
+  { signal, onProgress, pageSize = 5000, topPredicateCount = 20 }: ProfileOptions = {}
+): Promise<DatasetProfile> {
+  const totalTriples = await dataset.countMatches(null, null, null);
+
+  const snapshot = (page: ScanPage<'profile'> | null): DatasetProfile => {
+    const { predicates, ...counts } = page?.result ?? {
+      distinctSubjects: 0,
+      distinctPredicates: 0,
+      distinctObjects: 0,
+      objectKinds: { iri: 0, blankNode: 0, literal: 0 },
+      predicates: [],
+      datatypes: [],
+      languages: [],
+    };
+    return {
+      totalTriples,
+      processedTriples: page?.processedTriples ?? 0,
+      complete: page?.done ?? false,
+      ...counts,
+      topPredicates: predicates.slice(0, topPredicateCount),
+    };
+  };
+
+  signal?.throwIfAborted();
+  onProgress?.(snapshot(null));
+
+  let profile = snapshot(null);
+  for await (const page of dataset.scan('profile', pageSize)) {
+    // Leaving the loop closes the scan in the worker
+    signal?.throwIfAborted();
+    profile = snapshot(page);
+    onProgress?.(profile);
+  }
+  return profile;
+}
@@ -0,0 +1,151 @@
+import factory from '@rdfjs/data-model';
+import type { Quad, Term } from '@rdfjs/types';
+import type { HdtHeaderInfo } from './hdtHeader';
+import type { HdtLoadErrorDetails } from './hdtLoadError';
+import type { RdfFormat } from './rdfFormats';
+import type { RdfParseErrorDetails } from './rdfParseError';
+import type { ScanKind, ScanPage } from './datasetScans';
+import type { FrequencyEntry } from '../utils/frequency';
+
+// RDF/JS terms are class instances, which do not survive postMessage.
+// Terms and quads cross the worker boundary in this plain-object form.
+export type SerializedTerm =
+  | { termType: 'NamedNode'; value: string }
+  | { termType: 'BlankNode'; value: string }
+  | { termType: 'Literal'; value: string; language: string; datatype: string }
+  | { termType: 'DefaultGraph'; value: '' };
+
+export interface SerializedQuad {
+  subject: SerializedTerm;
+  predicate: SerializedTerm;
+  object: SerializedTerm;
+  graph: SerializedTerm;
+}
+
+// A triple pattern; null matches any term
+export interface QuadPattern {
+  subject: SerializedTerm | null;
+  predicate: SerializedTerm | null;
+  object: SerializedTerm | null;
+}
+
+export interface LoadResult {
+  sizeInBytes: number | bigint;
+  header?: HdtHeaderInfo;
+}
+
+export interface CursorPage {
+  quads: SerializedQuad[];
+  done: boolean;
+}
+
+// Requests handled by the dataset worker, keyed by type
+export type WorkerRequest =
+  | { type: 'load'; bytes: Uint8Array; format: RdfFormat; wasmSource: string }
+  | { type: 'match'; pattern: QuadPattern; offset?: number; limit?: number }
+  | { type: 'count'; pattern: QuadPattern }
+  | { type: 'countPredicates'; pattern: QuadPattern }
+  | { type: 'size' }
+  | { type: 'openCursor'; pattern: QuadPattern }
+  | { type: 'nextPage'; cursorId: number; pageSize: number }
+  | { type: 'closeCursor'; cursorId: number }
+  | { type: 'openScan'; kind: ScanKind }
+  | { type: 'nextScanPage'; scanId: number; pageSize: number }
+  | { type: 'closeScan'; scanId: number };
+
+// Result payload for each request type
+export interface WorkerResults {
+  load: LoadResult;
+  match: SerializedQuad[];
+  count: number;
+  countPredicates: FrequencyEntry[];
+  size: number | bigint;
+  openCursor: number;
+  nextPage: CursorPage;
+  closeCursor: void;
+  openScan: number;
+  nextScanPage: ScanPage;
+  closeScan: void;
+}
+
+export interface WorkerRequestMessage {
+  id: number;
+  request: WorkerRequest;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  details?: HdtLoadErrorDetails; // Set for typed HDT load failures
+  parseDetails?: RdfParseErrorDetails; // Set for text format syntax errors
+}
+
+export type WorkerResponseMessage =
+  | { id: number; ok: true; result: WorkerResults[WorkerRequest['type']] }
+  | { id: number; ok: false; error: SerializedError };
+
+export function serializeTerm(term: Term): SerializedTerm {
+  switch (term.termType) {
+    case 'NamedNode':
+      return { termType: 'NamedNode', value: term.value };
+    case 'BlankNode':
+      return { termType: 'BlankNode', value: term.value };
+    case 'Literal':
+      return {
+        termType: 'Literal',
+        value: term.value,
+        language: term.language,
+        datatype: term.datatype.value,
+      };
+    case 'DefaultGraph':
+      return { termType: 'DefaultGraph', value: '' };
+    default:
+      throw new Error(`Unsupported term type: ${term.termType}`);
+  }
+}
+
+export function deserializeTerm(term: SerializedTerm): Term {
+  switch (term.termType) {
+    case 'NamedNode':
+      return factory.namedNode(term.value);
+    case 'BlankNode':
+      return factory.blankNode(term.value);
+    case 'Literal':
+      return factory.literal(
+        term.value,
+        term.language || factory.namedNode(term.datatype)
+      );
+    case 'DefaultGraph':
+      return factory.defaultGraph();
+  }
+}
+
+export function serializeQuad(quad: Quad): SerializedQuad {
+  return {
+    subject: serializeTerm(quad.subject),
+    predicate: serializeTerm(quad.predicate),
+    object: serializeTerm(quad.object),
+    graph: serializeTerm(quad.graph),
+  };
+}
+
+export function deserializeQuad(quad: SerializedQuad): Quad {
+  return factory.quad(
+    deserializeTerm(quad.subject) as Quad['subject'],
+    deserializeTerm(quad.predicate) as Quad['predicate'],
+    deserializeTerm(quad.object) as Quad['object'],
+    deserializeTerm(quad.graph) as Quad['graph']
+  );
+}
+
+export function serializePattern(
+  subject: Term | null,
+  predicate: Term | null,
+  object: Term | null
+): QuadPattern {
+  return {
+    subject: subject ? serializeTerm(subject) : null,
+    predicate: predicate ? serializeTerm(predicate) : null,
+    object: object ? serializeTerm(object) : null,
+  };
+}
@@ -0,0 +1,144 @@
+// Whole-dataset scans that only need counts.
+//
+// Sending every triple to the main thread costs far more than counting it, so
+// the dataset worker runs these scans itself and posts back the running
+// totals. The accumulators are plain functions of the quads, so the union
+// dataset, whose distinct counts cannot be merged from its sources' totals,
+// runs the same ones over its own pages.
+
+import type { Quad, Term } from '@rdfjs/types';
+import { increment, sortedEntries } from '../utils/frequency';
+import type { FrequencyEntry } from '../utils/frequency';
+import { namespaceOf } from './namespaces';
+import type { NamespaceUsage } from './namespaces';
+import { termKey } from '../utils/resourceKey';
+
+// Counts behind the dataset profile
+export interface ProfileCounts {
+  distinctSubjects: number;
+  distinctPredicates: number;
+  distinctObjects: number;
+  objectKinds: {
+    iri: number;
+    blankNode: number;
+    literal: number;
+  };
+  // Every predicate, most used first
+  predicates: FrequencyEntry[];
+  datatypes: FrequencyEntry[];
+  languages: FrequencyEntry[];
+}
+
+// Result of each scan, keyed by kind
+export interface ScanResults {
+  profile: ProfileCounts;
+  namespaces: NamespaceUsage[];
+  // Triples per predicate, most used first
+  predicates: FrequencyEntry[];
+}
+
+export type ScanKind = keyof ScanResults;
+
+// Running totals after a page of triples
+export interface ScanPage<K extends ScanKind = ScanKind> {
+  processedTriples: number;
+  result: ScanResults[K];
+  done: boolean;
+}
+
+export interface ScanAccumulator<K extends ScanKind> {
+  add(quad: Quad): void;
+  snapshot(): ScanResults[K];
+}
+
+function profileAccumulator(): ScanAccumulator<'profile'> {
+  const subjects = new Set<string>();
+  const objects = new Set<string>();
+  const predicateCounts = new Map<string, number>();
+  const datatypeCounts = new Map<string, number>();
+  const languageCounts = new Map<string, number>();
+  const objectKinds = { iri: 0, blankNode: 0, literal: 0 };
+
+  return {
+    add(quad) {
+      subjects.add(termKey(quad.subject));
+      objects.add(termKey(quad.object));
+      increment(predicateCounts, quad.predicate.value);
+
+      if (quad.object.termType === 'Literal') {
+        objectKinds.literal++;
+        // Language-tagged literals count as rdf:langString and by their tag
+        increment(datatypeCounts, quad.object.datatype.value);
+        if (quad.object.language) {
+          increment(languageCounts, quad.object.language);
+        }
+      } else if (quad.object.termType === 'BlankNode') {
+        objectKinds.blankNode++;
+      } else {
+        objectKinds.iri++;
+      }
+    },
+    snapshot: () => ({
+      distinctSubjects: subjects.size,
+      distinctPredicates: predicateCounts.size,
+      distinctObjects: objects.size,
+      objectKinds: { ...objectKinds },
+      predicates: sortedEntries(predicateCounts),
+      datatypes: sortedEntries(datatypeCounts),
+      languages: sortedEntries(languageCounts),
+    }),
+  };
+}
+
+function namespaceAccumulator(): ScanAccumulator<'namespaces'> {
+  const usage = new Map<string, NamespaceUsage>();
+  const terms = new Map<string, Set<string>>();
+
+  const count = (term: Term, position: 'subject' | 'predicate' | 'object') => {
+    if (term.termType !== 'NamedNode') return;
+    const namespace = namespaceOf(term.value);
+    if (!namespace) return;
+    let entry = usage.get(namespace);
+    if (!entry) {
+      entry = { namespace, subject: 0, predicate: 0, object: 0, total: 0, terms: 0 };
+      usage.set(namespace, entry);
+      terms.set(namespace, new Set());
+    }
+    entry[position]++;
+    entry.total++;
+    terms.get(namespace)!.add(term.value);
+  };
+
+  return {
+    add(quad) {
+      count(quad.subject, 'subject');
+      count(quad.predicate, 'predicate');
+      count(quad.object, 'object');
+    },
+    snapshot: () =>
+      Array.from(usage.values(), (entry) => ({
+        ...entry,
+        terms: terms.get(entry.namespace)!.size,
+      })).sort((a, b) => b.total - a.total),
+  };
+}
+
+function predicateAccumulator(): ScanAccumulator<'predicates'> {
+  const counts = new Map<string, number>();
+  return {
+    add(quad) {
+      increment(counts, quad.predicate.value);
+    },
+    snapshot: () => sortedEntries(counts),
+  };
+}
+
+const ACCUMULATORS: { [K in ScanKind]: () => ScanAccumulator<K> } = {
+  profile: profileAccumulator,
+  namespaces: namespaceAccumulator,
+  predicates: predicateAccumulator,
+};
+
+export function createScanAccumulator<K extends ScanKind>(kind: K): ScanAccumulator<K> {
+  return ACCUMULATORS[kind]();
+}
@@ -0,0 +1,183 @@
+import factory from '@rdfjs/data-model';
+import type { BlankNode, Quad, Term } from '@rdfjs/types';
+import type { DatasetClient, DatasetHandle, MatchOptions, PredicateCount } from './datasetClient';
+import { createScanAccumulator } from './datasetScans';
+import type { ScanKind, ScanPage } from './datasetScans';
+import { sortedEntries } from '../utils/frequency';
+
+// A dataset loaded into its own worker, with the name shown in the app bar
+export interface OpenDataset {
+  id: string;
+  name: string;
+  client: DatasetClient;
+  // Set once the dataset's worker stopped (e.g. out of memory); it can no
+  // longer be queried and stays listed only until it is closed
+  failure?: string;
+}
+
+// Selection value for browsing the union of all open datasets
+export const UNION_DATASET_ID = 'union';
+
+// Quads from the union carry a graph IRI naming the dataset they came from
+const SOURCE_GRAPH_PREFIX = 'urn:hdt-graph-discovery:dataset:';
+
+// A triple pattern; null matches any term
+type Pattern = [subject: Term | null, predicate: Term | null, object: Term | null];
+
+/**
+ * Virtual read-only union of several open datasets.
+ *
+ * Queries are answered by each source in turn and the results concatenated.
+ * Every returned quad is moved into a graph that identifies its source (any
+ * named graph from an N-Quads file is replaced), so the same triple found in
+ * two datasets is reported twice, once per source.
+ *
+ * Blank node labels are only meaningful within their own dataset, so they are
+ * prefixed with the source id ("<id>:<label>"). A pattern containing such a
+ * blank node is only sent to its source, with the original label.
+ */
+export class UnionDataset implements DatasetHandle {
+  private readonly sources: OpenDataset[];
+
+  constructor(sources: OpenDataset[]) {
+    this.sources = sources;
+  }
+
+  async match(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    options: MatchOptions = {}
+  ): Promise<Quad[]> {
+    const limit = options.limit ?? Infinity;
+    let skip = options.offset ?? 0;
+    const results: Quad[] = [];
+
+    for (const { source, pattern } of this.scope([subject, predicate, object])) {
+      if (results.length >= limit) break;
+      // Skip whole sources that lie before the offset without fetching them
+      if (skip > 0) {
+        const count = await source.client.countMatches(...pattern);
+        if (count <= skip) {
+          skip -= count;
+          continue;
+        }
+      }
+      const quads = await source.client.match(...pattern, {
+        offset: skip,
+        limit: limit === Infinity ? undefined : limit - results.length,
+      });
+      skip = 0;
+      results.push(...this.tag(quads, source));
+    }
+    return results;
+  }
+
+  async countMatches(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null
+  ): Promise<number> {
+    const counts = await Promise.all(
+      this.scope([subject, predicate, object]).map(({ source, pattern }) => source.client.countMatches(...pattern))
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  // Per-predicate counts add up across sources, unlike distinct counts
+  async countPredicates(subject: Term | null, object: Term | null): Promise<PredicateCount[]> {
+    const counts = new Map<string, number>();
+    const sources = new Map<string, Set<string>>();
+    const scoped = this.scope([subject, null, object]);
+    const results = await Promise.all(
+      scoped.map(({ source, pattern }) => source.client.countPredicates(pattern[0], pattern[2]))
+    );
+    results.forEach((entries, index) => {
+      for (const { value, count } of entries) {
+        counts.set(value, (counts.get(value) ?? 0) + count);
+        if (!sources.has(value)) sources.set(value, new Set());
+        sources.get(value)!.add(scoped[index].source.name);
+      }
+    });
+    return sortedEntries(counts).map((entry) => ({
+      ...entry,
+      sources: Array.from(sources.get(entry.value)!).sort(),
+    }));
+  }
+
+  async sizeInBytes(): Promise<number | bigint> {
+    const sizes = await Promise.all(this.sources.map((source) => source.client.sizeInBytes()));
+    if (sizes.some((size) => typeof size === 'bigint')) {
+      return sizes.reduce<bigint>((sum, size) => sum + BigInt(size), 0n);
+    }
+    return (sizes as number[]).reduce((sum, size) => sum + size, 0);
+  }
+
+  async *iterate(
+    subject: Term | null,
+    predicate: Term | null,
+    object: Term | null,
+    pageSize: number = 1000
+  ): AsyncGenerator<Quad[]> {
+    for (const { source, pattern } of this.scope([subject, predicate, object])) {
+      for await (const page of source.client.iterate(...pattern, pageSize)) {
+        yield this.tag(page, source);
+      }
+    }
+  }
+
+  // Distinct counts cannot be combined from each source's totals, so the union
+  // counts its own pages
+  async *scan<K extends ScanKind>(kind: K, pageSize: number = 5000): AsyncGenerator<ScanPage<K>> {
+    const accumulator = createScanAccumulator(kind);
+    let processedTriples = 0;
+    for await (const page of this.iterate(null, null, null, pageSize)) {
+      page.forEach((quad) => accumulator.add(quad));
+      processedTriples += page.length;
+      yield { processedTriples, result: accumulator.snapshot(), done: false };
+    }
+    yield { processedTriples, result: accumulator.snapshot(), done: true };
+  }
+
+  sourceName(graph: Term): string | undefined {
+    if (graph.termType !== 'NamedNode' || !graph.value.startsWith(SOURCE_GRAPH_PREFIX)) {
+      return undefined;
+    }
+    const id = decodeURIComponent(graph.value.slice(SOURCE_GRAPH_PREFIX.length));
+    return this.sources.find((source) => source.id === id)?.name;
+  }
+
+  // Sources a pattern can match in, each with the pattern in its own terms
+  private scope(pattern: Pattern): { source: OpenDataset; pattern: Pattern }[] {
+    let owner: OpenDataset | undefined;
+    for (const term of pattern) {
+      if (term?.termType !== 'BlankNode') continue;
+      const source = this.sourceOf(term);
+      // Unknown label, or blank nodes of two different sources: nothing matches
+      if (!source || (owner && owner !== source)) return [];
+      owner = source;
+    }
+    if (!owner) {
+      return this.sources.map((source) => ({ source, pattern }));
+    }
+    const local = pattern.map((term) =>
+      term?.termType === 'BlankNode' ? factory.blankNode(term.value.slice(term.value.indexOf(':') + 1)) : term
+    ) as Pattern;
+    return [{ source: owner, pattern: local }];
+  }
+
+  private sourceOf(blankNode: BlankNode): OpenDataset | undefined {
+    const separator = blankNode.value.indexOf(':');
+    if (separator === -1) return undefined;
+    const id = decodeURIComponent(blankNode.value.slice(0, separator));
+    return this.sources.find((source) => source.id === id);
+  }
+
+  private tag(quads: Quad[], source: OpenDataset): Quad[] {
+    const id = encodeURIComponent(source.id);
+    const graph = factory.namedNode(`${SOURCE_GRAPH_PREFIX}${id}`);
+    const scoped = <T extends Term>(term: T): T | BlankNode =>
+      term.termType === 'BlankNode' ? factory.blankNode(`${id}:${term.value}`) : term;
+    return quads.map((quad) => factory.quad(scoped(quad.subject), quad.predicate, scoped(quad.object), graph));
+  }
+}
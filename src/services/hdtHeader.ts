@@ -0,0 +1,117 @@
+import { Parser } from 'n3';
+import { serializeQuad } from './datasetProtocol';
+import type { SerializedQuad } from './datasetProtocol';
+
+/*
+ * Reader for the header section of an HDT file.
+ *
+ * Every HDT section starts with a "control information" block:
+ *   "$HDT" cookie | type (1 byte) | format + \0 | "key=value;" properties + \0 | CRC16
+ * The file opens with the global block, followed by the header block whose
+ * `length` property gives the size of the N-Triples header that follows it,
+ * and then the dictionary block.
+ */
+
+export const HDT_NS = 'http://purl.org/HDT/hdt#';
+export const VOID_NS = 'http://rdfs.org/ns/void#';
+
+export type ControlInformationType =
+  | 'unknown'
+  | 'global'
+  | 'header'
+  | 'dictionary'
+  | 'triples'
+  | 'index';
+
+const CONTROL_INFORMATION_TYPES: ControlInformationType[] = [
+  'unknown',
+  'global',
+  'header',
+  'dictionary',
+  'triples',
+  'index',
+];
+
+export interface ControlInformation {
+  type: ControlInformationType;
+  format: string;
+  properties: Record<string, string>;
+  offset: number; // Byte offset of the "$HDT" cookie
+}
+
+export interface HdtHeaderInfo {
+  global: ControlInformation;
+  header: ControlInformation;
+  dictionary?: ControlInformation;
+  triples: SerializedQuad[];
+}
+
+const decoder = new TextDecoder();
+
+// Read a \0-terminated string starting at offset
+function readCString(bytes: Uint8Array, offset: number): { value: string; next: number } {
+  const end = bytes.indexOf(0, offset);
+  if (end < 0) {
+    throw new Error(`Unterminated string at byte ${offset}`);
+  }
+  return { value: decoder.decode(bytes.subarray(offset, end)), next: end + 1 };
+}
+
+function parseProperties(text: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const pair of text.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      properties[pair.slice(0, separator)] = pair.slice(separator + 1);
+    }
+  }
+  return properties;
+}
+
+function readControlInformation(
+  bytes: Uint8Array,
+  offset: number
+): { info: ControlInformation; next: number } {
+  const cookie = decoder.decode(bytes.subarray(offset, offset + 4));
+  if (cookie !== '$HDT') {
+    throw new Error(`Expected "$HDT" control information at byte ${offset}`);
+  }
+  const type = CONTROL_INFORMATION_TYPES[bytes[offset + 4]] ?? 'unknown';
+  const format = readCString(bytes, offset + 5);
+  const properties = readCString(bytes, format.next);
+  return {
+    info: {
+      type,
+      format: format.value,
+      properties: parseProperties(properties.value),
+      offset,
+    },
+    next: properties.next + 2, // Skip CRC16
+  };
+}
+
+export function parseHdtHeader(bytes: Uint8Array): HdtHeaderInfo {
+  const global = readControlInformation(bytes, 0);
+  const header = readControlInformation(bytes, global.next);
+  if (header.info.type !== 'header') {
+    throw new Error(`Expected header section, found ${header.info.type}`);
+  }
+
+  const length = parseInt(header.info.properties.length ?? '', 10);
+  if (Number.isNaN(length)) {
+    throw new Error('Header section has no length');
+  }
+  const headerEnd = header.next + length;
+  const text = decoder.decode(bytes.subarray(header.next, headerEnd));
+  const triples = new Parser({ format: 'N-Triples' }).parse(text).map(serializeQuad);
+
+  // The dictionary section follows directly; its format names the dictionary type
+  let dictionary: ControlInformation | undefined;
+  try {
+    dictionary = readControlInformation(bytes, headerEnd).info;
+  } catch {
+    dictionary = undefined;
+  }
+
+  return { global: global.info, header: header.info, dictionary, triples };
+}
@@ -0,0 +1,253 @@
+// Typed errors for HDT loading failures.
+//
+// The HDT library reports most failures as "Error code <n>" messages; this
+// module decodes them (together with WASM and memory failures) into a kind,
+// the failing byte offset and a hex dump of the surrounding bytes, so the
+// diagnostics panel can show more than a one-line message.
+
+export type HdtLoadErrorKind =
+  | 'bad-magic'
+  | 'truncated'
+  | 'parse-failure'
+  | 'wasm-instantiation'
+  | 'out-of-memory'
+  | 'unknown';
+
+export interface HexDumpWindow {
+  start: number; // File offset of the first byte in `bytes`
+  bytes: number[];
+}
+
+// Plain-object form, so the error can be posted from the dataset worker
+export interface HdtLoadErrorDetails {
+  kind: HdtLoadErrorKind;
+  message: string;
+  originalMessage?: string;
+  offset?: number;
+  fileSize: number;
+  hexDump?: HexDumpWindow;
+  suggestions: string[];
+}
+
+export class HdtLoadError extends Error {
+  readonly details: HdtLoadErrorDetails;
+
+  constructor(details: HdtLoadErrorDetails) {
+    super(details.message);
+    this.name = 'HdtLoadError';
+    this.details = details;
+  }
+
+  get kind(): HdtLoadErrorKind {
+    return this.details.kind;
+  }
+}
+
+export const HDT_LOAD_ERROR_TITLES: Record<HdtLoadErrorKind, string> = {
+  'bad-magic': 'Not an HDT file',
+  truncated: 'Truncated HDT file',
+  'parse-failure': 'HDT parse failure',
+  'wasm-instantiation': 'WebAssembly module failed to start',
+  'out-of-memory': 'Out of memory',
+  unknown: 'Failed to load HDT file',
+};
+
+const SUGGESTIONS: Record<HdtLoadErrorKind, string[]> = {
+  'bad-magic': [
+    'Check that the file is an HDT file and not the N-Triples/Turtle source it was built from.',
+    'Compressed files (.gz) must be decompressed first.',
+    'If the file was downloaded, make sure the server did not return an HTML error page.',
+  ],
+  truncated: [
+    'The file ends before the HDT structures do. Re-download or re-copy it and compare file sizes.',
+    'Check that rdf2hdt finished without errors and that the disk was not full while writing.',
+  ],
+  'parse-failure': [
+    'Regenerate the file with rdf2hdt and verify it with `hdtInfo` / `hdtSearch`.',
+    'Files produced by very old or very new HDT tool versions may use unsupported dictionary or triples formats.',
+  ],
+  'wasm-instantiation': [
+    'Make sure the browser supports WebAssembly memory64 (WASM64).',
+    'Check that hdt.wasm is served from the app base path with the application/wasm content type.',
+  ],
+  'out-of-memory': [
+    'Close other tabs or datasets to free memory, then try again.',
+    'Try a smaller dataset; HDT loading needs memory for the file plus its indexes.',
+  ],
+  unknown: ['Check the browser console for more details.'],
+};
+
+const HEX_DUMP_ROW = 16;
+const HEX_DUMP_ROWS_BEFORE = 3;
+const HEX_DUMP_ROWS_TOTAL = 8;
+
+// Capture the bytes around an offset, aligned to hex dump rows
+export function hexDumpAround(bytes: Uint8Array, offset: number): HexDumpWindow {
+  const row = Math.floor(Math.min(offset, Math.max(bytes.length - 1, 0)) / HEX_DUMP_ROW);
+  const start = Math.max(0, (row - HEX_DUMP_ROWS_BEFORE) * HEX_DUMP_ROW);
+  const end = Math.min(bytes.length, start + HEX_DUMP_ROWS_TOTAL * HEX_DUMP_ROW);
+  return { start, bytes: Array.from(bytes.subarray(start, end)) };
+}
+
+function describeBytes(bytes: number[]): string {
+  const hex = bytes.map((b) => `0x${b.toString(16).padStart(2, '0')}`).join(' ');
+  const ascii = String.fromCharCode(...bytes.map((b) => (b < 32 || b > 126 ? 46 : b)));
+  return `${hex} (${ascii})`;
+}
+
+function makeError(
+  bytes: Uint8Array,
+  kind: HdtLoadErrorKind,
+  message: string,
+  offset?: number,
+  originalMessage?: string,
+  fileSize: number = bytes.length
+): HdtLoadError {
+  return new HdtLoadError({
+    kind,
+    message,
+    originalMessage,
+    offset,
+    fileSize,
+    hexDump: offset !== undefined && bytes.length > 0 ? hexDumpAround(bytes, offset) : undefined,
+    suggestions: SUGGESTIONS[kind],
+  });
+}
+
+// Verify the file starts with the "$HDT" magic bytes
+export function checkHdtMagic(bytes: Uint8Array): HdtLoadError | null {
+  if (bytes.length < 4) {
+    return makeError(bytes, 'truncated', `File is only ${bytes.length} bytes long.`, 0);
+  }
+  const magic = new TextDecoder().decode(bytes.subarray(0, 4));
+  if (magic !== '$HDT') {
+    return makeError(
+      bytes,
+      'bad-magic',
+      `Expected "$HDT" magic bytes, but got: ${describeBytes(Array.from(bytes.subarray(0, 4)))}`,
+      0
+    );
+  }
+  return null;
+}
+
+// Raised before loading when the capability probe found no memory64 support
+export function unsupportedBrowserError(fileSize: number): HdtLoadError {
+  return new HdtLoadError({
+    kind: 'wasm-instantiation',
+    message: 'This browser does not support WebAssembly memory64 (WASM64), which the HDT loader requires.',
+    fileSize,
+    suggestions: SUGGESTIONS['wasm-instantiation'],
+  });
+}
+
+// A worker killed for running out of memory fires an error event without a
+// message; anything else it reports is classified like a thrown error.
+export function workerFailureError(message: string, fileSize: number): HdtLoadError {
+  if (!message) {
+    return makeError(
+      new Uint8Array(0),
+      'out-of-memory',
+      'The dataset worker stopped without an error message, most likely because it ran out of memory.',
+      undefined,
+      undefined,
+      fileSize
+    );
+  }
+  return classifyHdtLoadError(new Error(message), new Uint8Array(0), fileSize);
+}
+
+// Turn whatever the HDT library or WASM runtime threw into a typed error.
+// Without the file bytes (e.g. after they were transferred to the worker)
+// only the message is classified, using the given file size.
+export function classifyHdtLoadError(
+  err: unknown,
+  bytes: Uint8Array,
+  fileSize: number = bytes.length
+): HdtLoadError {
+  if (err instanceof HdtLoadError) return err;
+
+  const name = err instanceof Error ? err.name : '';
+  const message = err instanceof Error ? err.message : String(err);
+
+  // Decode error code -9000 format: -(9000 + b0 + (b1 << 8) + (b2 << 16) + (b3 << 24))
+  const errorCodeMatch = message.match(/Error code (-?\d+)/);
+  if (errorCodeMatch) {
+    const code = parseInt(errorCodeMatch[1], 10);
+    if (code === -9000) {
+      return makeError(
+        bytes,
+        'bad-magic',
+        'First 4 bytes are all zeros. The file may be corrupted or empty.',
+        0,
+        message
+      );
+    }
+    if (code === -9999) {
+      return makeError(
+        bytes,
+        'truncated',
+        'File is too short or data length mismatch.',
+        Math.max(bytes.length - 1, 0),
+        message
+      );
+    }
+    // -9999 lies in this range too, so it is matched first
+    if (code < -9000 && code >= -9000 - 0xFFFFFFFF) {
+      // Decode the bytes from the error code
+      const encoded = -(code + 9000);
+      const decoded = [0, 8, 16, 24].map((shift) => (encoded >> shift) & 0xFF);
+      return makeError(
+        bytes,
+        'bad-magic',
+        `Invalid HDT file header. Expected "$HDT" but got: ${describeBytes(decoded)}.`,
+        0,
+        message
+      );
+    }
+    if (code < 0) {
+      // Error code encodes byte position: -(bytes_read + 1)
+      const bytesRead = -(code + 1);
+      if (bytesRead >= bytes.length) {
+        return makeError(
+          bytes,
+          'truncated',
+          `Reached the end of the file (${bytes.length} bytes) while parsing.`,
+          Math.max(bytes.length - 1, 0),
+          message
+        );
+      }
+      return makeError(
+        bytes,
+        'parse-failure',
+        `Parsing failed at byte ${bytesRead} of ${bytes.length}. The file may be corrupted.`,
+        bytesRead,
+        message
+      );
+    }
+  }
+
+  if (
+    name === 'RangeError' ||
+    /out of memory|\bOOM\b|allocation failed|Cannot enlarge memory|could not allocate/i.test(message)
+  ) {
+    return makeError(bytes, 'out-of-memory', message, undefined, message, fileSize);
+  }
+
+  if (
+    name === 'CompileError' ||
+    name === 'LinkError' ||
+    /WebAssembly|wasm|memory64/i.test(message)
+  ) {
+    return makeError(bytes, 'wasm-instantiation', message, undefined, message, fileSize);
+  }
+
+  return makeError(
+    bytes,
+    'unknown',
+    message || 'Failed to load HDT file',
+    undefined,
+    message,
+    fileSize
+  );
+}
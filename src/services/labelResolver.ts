@@ -0,0 +1,57 @@
+import factory from '@rdfjs/data-model';
+import type { Literal } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { WELL_KNOWN_PREFIXES } from './namespaces';
+import { resourceTerm } from '../utils/resourceKey';
+
+// Label predicates in the order they are tried
+export const DEFAULT_LABEL_PREDICATES = [
+  `${WELL_KNOWN_PREFIXES.skos}prefLabel`,
+  `${WELL_KNOWN_PREFIXES.rdfs}label`,
+  `${WELL_KNOWN_PREFIXES.schema}name`,
+  `${WELL_KNOWN_PREFIXES.dcterms}title`,
+  `${WELL_KNOWN_PREFIXES.foaf}name`,
+];
+
+export interface LabelSettings {
+  predicates: string[];
+  // Lower-case language tags, most preferred first
+  languages: string[];
+}
+
+// Primary subtags of the browser's languages, e.g. ['de', 'en'] for de-AT, en-US
+export function browserLanguages(): string[] {
+  const tags = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return Array.from(new Set(tags.map((tag) => tag.split('-')[0].toLowerCase()).filter(Boolean)));
+}
+
+// Rank of a literal's language: preferred languages in order, then untagged, then any other
+function languageRank(literal: Literal, languages: string[]): number {
+  const tag = literal.language.toLowerCase();
+  if (!tag) return languages.length;
+  const index = languages.findIndex((language) => tag === language || tag.startsWith(`${language}-`));
+  return index === -1 ? languages.length + 1 : index;
+}
+
+/**
+ * The label of a resource (an IRI, or "_:label" for a blank node): the first
+ * predicate in priority order that has literal values decides, and among its
+ * values the best match for the preferred languages wins. Resolves to
+ * undefined when the resource has no label.
+ */
+export async function resolveLabel(
+  dataset: DatasetHandle,
+  resource: string,
+  { predicates, languages }: LabelSettings
+): Promise<string | undefined> {
+  const subject = resourceTerm(resource);
+  for (const predicate of predicates) {
+    const literals = (await dataset.match(subject, factory.namedNode(predicate), null))
+      .map((quad) => quad.object)
+      .filter((object): object is Literal => object.termType === 'Literal' && object.value.trim() !== '');
+    if (literals.length === 0) continue;
+    literals.sort((a, b) => languageRank(a, languages) - languageRank(b, languages));
+    return literals[0].value;
+  }
+  return undefined;
+}
@@ -0,0 +1,86 @@
+// Pre-flight memory estimate for loading a dataset.
+//
+// Browsers kill a tab (or worker) that runs out of memory instead of throwing,
+// so we compare a rough estimate of what loading needs against the limits we
+// can observe and warn before attempting it. The factors are deliberately
+// pessimistic rules of thumb, not measurements of the loader.
+
+import type { RdfFormat } from './rdfFormats';
+import type { WasmCapabilities } from './wasmCapabilities';
+
+// HDT: the file is copied into WASM memory and the loader builds its object
+// index next to it
+const HDT_WASM_FACTOR = 1.5;
+// Text formats: decoded UTF-16 string plus the N3 store's term ids and indexes
+const TEXT_HEAP_FACTOR = 15;
+// Warn once the estimate reaches this share of a limit
+const WARNING_RATIO = 0.8;
+
+export interface MemoryLimit {
+  label: string;
+  bytes: number;
+  // Part of the estimate that has to fit into this limit
+  requiredBytes: number;
+}
+
+export interface MemoryBudget {
+  fileSize: number;
+  format: RdfFormat;
+  // Bytes held in JS (the file buffer, and the parsed store for text formats)
+  heapBytes: number;
+  // Bytes of WASM linear memory (HDT only)
+  wasmBytes: number;
+  totalBytes: number;
+  limits: MemoryLimit[];
+  // Estimate is above a limit: loading will very likely fail
+  exceedsLimit: boolean;
+  // Estimate is close to a limit: loading may fail
+  nearLimit: boolean;
+}
+
+interface PerformanceMemory {
+  jsHeapSizeLimit: number;
+  usedJSHeapSize: number;
+}
+
+export function estimateMemoryBudget(
+  fileSize: number,
+  format: RdfFormat,
+  capabilities: WasmCapabilities
+): MemoryBudget {
+  const wasmBytes = format === 'hdt' ? Math.ceil(fileSize * HDT_WASM_FACTOR) : 0;
+  const heapBytes = format === 'hdt' ? fileSize : Math.ceil(fileSize * TEXT_HEAP_FACTOR);
+  const totalBytes = heapBytes + wasmBytes;
+
+  const limits: MemoryLimit[] = [];
+  if (wasmBytes > 0 && capabilities.maxMemory64Bytes !== undefined) {
+    limits.push({ label: 'WASM64 memory limit', bytes: capabilities.maxMemory64Bytes, requiredBytes: wasmBytes });
+  }
+
+  // Chromium only; other browsers do not expose heap usage
+  const memory = (performance as Performance & { memory?: PerformanceMemory }).memory;
+  if (memory) {
+    limits.push({
+      label: 'Free JS heap',
+      bytes: Math.max(0, memory.jsHeapSizeLimit - memory.usedJSHeapSize),
+      requiredBytes: heapBytes,
+    });
+  }
+
+  // Approximate device RAM in GiB, capped at 8 by the browser
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (deviceMemory !== undefined && deviceMemory < 8) {
+    limits.push({ label: 'Device memory', bytes: deviceMemory * 1024 ** 3, requiredBytes: totalBytes });
+  }
+
+  return {
+    fileSize,
+    format,
+    heapBytes,
+    wasmBytes,
+    totalBytes,
+    limits,
+    exceedsLimit: limits.some((limit) => limit.requiredBytes > limit.bytes),
+    nearLimit: limits.some((limit) => limit.requiredBytes > limit.bytes * WARNING_RATIO),
+  };
+}
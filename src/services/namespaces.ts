@@ -0,0 +1,160 @@
+import type { DatasetHandle } from './datasetClient';
+
+// prefix -> namespace IRI
+export type PrefixMap = Record<string, string>;
+
+// Prefixes known up front, also used to name discovered namespaces
+export const WELL_KNOWN_PREFIXES: PrefixMap = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcterms: 'http://purl.org/dc/terms/',
+  schema: 'http://schema.org/',
+  void: 'http://rdfs.org/ns/void#',
+  sh: 'http://www.w3.org/ns/shacl#',
+  prov: 'http://www.w3.org/ns/prov#',
+  dcat: 'http://www.w3.org/ns/dcat#',
+  hdt: 'http://purl.org/HDT/hdt#',
+};
+
+// Fallback display for IRIs outside every known namespace
+const MAX_UNPREFIXED_LENGTH = 60;
+
+export interface NamespaceUsage {
+  namespace: string;
+  subject: number;
+  predicate: number;
+  object: number;
+  total: number;
+  // Distinct IRIs seen in this namespace
+  terms: number;
+}
+
+export interface NamespaceAnalysis {
+  namespaces: NamespaceUsage[];
+  processedTriples: number;
+  totalTriples: number;
+  complete: boolean;
+}
+
+interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (analysis: NamespaceAnalysis) => void;
+  pageSize?: number;
+}
+
+/**
+ * Namespace part of an IRI: everything up to and including the last '#' or
+ * '/', or the last ':' for URNs. Returns null when there is no local name.
+ */
+export function namespaceOf(iri: string): string | null {
+  const hash = iri.lastIndexOf('#');
+  let end = hash >= 0 ? hash : iri.lastIndexOf('/');
+  if (end < 0 && iri.startsWith('urn:')) {
+    end = iri.lastIndexOf(':');
+  }
+  // Skip scheme-only splits such as "http://"
+  if (end < 0 || end === iri.length - 1 || /^[a-z][\w+.-]*:\/*$/i.test(iri.slice(0, end + 1))) {
+    return null;
+  }
+  return iri.slice(0, end + 1);
+}
+
+/**
+ * Shorten an IRI to prefix:localName with the longest matching namespace.
+ * IRIs outside every namespace are shown in full, truncated from the left.
+ */
+export function shortenIri(iri: string, prefixes: PrefixMap): string {
+  let best: [string, string] | null = null;
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (iri.startsWith(namespace) && iri.length > namespace.length) {
+      if (!best || namespace.length > best[1].length) {
+        best = [prefix, namespace];
+      }
+    }
+  }
+  if (best) {
+    return `${best[0]}:${iri.slice(best[1].length)}`;
+  }
+  return iri.length > MAX_UNPREFIXED_LENGTH ? `...${iri.slice(-MAX_UNPREFIXED_LENGTH)}` : iri;
+}
+
+// Expand a prefix:localName typed by the user; anything else is returned as is
+export function expandIri(name: string, prefixes: PrefixMap): string {
+  const match = /^([A-Za-z][\w-]*):(?!\/\/)(.*)$/.exec(name);
+  return match && prefixes[match[1]] !== undefined ? `${prefixes[match[1]]}${match[2]}` : name;
+}
+
+// Derive a prefix candidate from the last meaningful path segment
+function prefixCandidate(namespace: string): string {
+  const segments = namespace
+    .replace(/^[a-z][\w+.-]*:\/*/i, '')
+    .split(/[/#:]/)
+    .filter((segment) => segment && !/^v?\d+([.-]\d+)*$/.test(segment));
+  // Prefer the last path segment, otherwise the host without www / TLD
+  const segment = segments.length > 1 ? segments[segments.length - 1] : segments[0] ?? '';
+  const name = segments.length > 1 ? segment : segment.replace(/^www\./, '').split('.')[0];
+  const cleaned = name.toLowerCase().replace(/\.[a-z]+$/, '').replace(/[^a-z0-9]/g, '');
+  return /^[a-z]/.test(cleaned) ? cleaned.slice(0, 12) : `ns${cleaned}`.slice(0, 12);
+}
+
+/**
+ * Propose a prefix for each namespace. Namespaces that already have one keep
+ * it, well-known namespaces get their usual prefix, the rest a prefix derived
+ * from their IRI, made unique with a number.
+ */
+export function proposePrefixes(namespaces: string[], existing: PrefixMap = {}): PrefixMap {
+  const proposed: PrefixMap = {};
+  const byNamespace = new Map<string, string>();
+  for (const [prefix, namespace] of Object.entries({ ...WELL_KNOWN_PREFIXES, ...existing })) {
+    byNamespace.set(namespace, prefix);
+  }
+  const taken = new Set(Object.keys(existing));
+
+  for (const namespace of namespaces) {
+    const known = byNamespace.get(namespace);
+    if (known && (!taken.has(known) || existing[known] === namespace)) {
+      proposed[known] = namespace;
+      taken.add(known);
+      continue;
+    }
+    const base = prefixCandidate(namespace) || 'ns';
+    let prefix = base;
+    for (let i = 2; taken.has(prefix); i++) {
+      prefix = `${base}${i}`;
+    }
+    proposed[prefix] = namespace;
+    taken.add(prefix);
+  }
+  return proposed;
+}
+
+/**
+ * Count, per namespace, how often its IRIs occur as subject, predicate and
+ * object. The triples are counted inside the dataset worker page by page, like
+ * the dataset profile, and the scan can be aborted between pages.
+ */
+export async function analyzeNamespaces(
+  dataset: DatasetHandle,
+  { signal, onProgress, pageSize = 5000 }: AnalyzeOptions = {}
+): Promise<NamespaceAnalysis> {
+  const totalTriples = await dataset.countMatches(null, null, null);
+  let analysis: NamespaceAnalysis = { namespaces: [], processedTriples: 0, totalTriples, complete: false };
+
+  signal?.throwIfAborted();
+  for await (const page of dataset.scan('namespaces', pageSize)) {
+    signal?.throwIfAborted();
+    analysis = {
+      namespaces: page.result,
+      processedTriples: page.processedTriples,
+      totalTriples,
+      complete: page.done,
+    };
+    onProgress?.(analysis);
+  }
+  return analysis;
+}
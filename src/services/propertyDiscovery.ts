@@ -0,0 +1,126 @@
+import factory from '@rdfjs/data-model';
+import type { Quad } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { increment, sortedEntries } from '../utils/frequency';
+import type { FrequencyEntry } from '../utils/frequency';
+import { WELL_KNOWN_PREFIXES } from './namespaces';
+import { resourceKey } from '../utils/resourceKey';
+
+const RDF_TYPE = `${WELL_KNOWN_PREFIXES.rdf}type`;
+const RDFS_DOMAIN = `${WELL_KNOWN_PREFIXES.rdfs}domain`;
+const RDFS_RANGE = `${WELL_KNOWN_PREFIXES.rdfs}range`;
+
+export const PROPERTY_TYPES = [
+  `${WELL_KNOWN_PREFIXES.owl}ObjectProperty`,
+  `${WELL_KNOWN_PREFIXES.owl}DatatypeProperty`,
+  `${WELL_KNOWN_PREFIXES.rdf}Property`,
+];
+
+export interface PropertyInfo {
+  iri: string;
+  // Triples using the property as predicate; 0 for declared but unused ones
+  tripleCount: number;
+  // Property classes it is declared with, from PROPERTY_TYPES
+  declaredAs: string[];
+  domains: string[];
+  ranges: string[];
+  // rdf:type of subjects and objects (datatypes for literals) in the sampled triples
+  subjectTypes: FrequencyEntry[];
+  objectTypes: FrequencyEntry[];
+  sampledTriples: number;
+}
+
+export interface PropertyDiscoveryProgress {
+  phase: 'predicates' | 'details';
+  processed: number;
+  total: number;
+}
+
+interface PropertyDiscoveryOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PropertyDiscoveryProgress) => void;
+  pageSize?: number;
+  // Triples per property whose subjects and objects are looked up
+  sampleSize?: number;
+}
+
+/**
+ * List every property used as a predicate or declared as one.
+ *
+ * Usage counts need a pass over all triples, which the dataset worker
+ * counts. Declared domains and ranges are read per property; observed types
+ * come from the first sampleSize triples of each property, so they show what
+ * the data looks like rather than a full census.
+ */
+export async function discoverProperties(
+  dataset: DatasetHandle,
+  { signal, onProgress, pageSize = 5000, sampleSize = 50 }: PropertyDiscoveryOptions = {}
+): Promise<PropertyInfo[]> {
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const total = await dataset.countMatches(null, null, null);
+  let predicates: FrequencyEntry[] = [];
+  onProgress?.({ phase: 'predicates', processed: 0, total });
+
+  for await (const page of dataset.scan('predicates', pageSize)) {
+    signal?.throwIfAborted();
+    predicates = page.result;
+    onProgress?.({ phase: 'predicates', processed: page.processedTriples, total });
+  }
+  const counts = new Map(predicates.map(({ value, count }) => [value, count]));
+
+  const declaredAs = new Map<string, string[]>();
+  for (const propertyType of PROPERTY_TYPES) {
+    for (const quad of await dataset.match(null, rdfType, factory.namedNode(propertyType))) {
+      if (quad.subject.termType !== 'NamedNode') continue;
+      declaredAs.set(quad.subject.value, [...(declaredAs.get(quad.subject.value) ?? []), propertyType]);
+      if (!counts.has(quad.subject.value)) counts.set(quad.subject.value, 0);
+    }
+  }
+
+  // Types are shared by many sampled terms, so look each term up once
+  const typeCache = new Map<string, string[]>();
+  const typesOf = async (term: Quad['subject'] | Quad['object']): Promise<string[]> => {
+    if (term.termType === 'Literal') return [term.datatype.value];
+    const key = resourceKey(term);
+    let types = typeCache.get(key);
+    if (!types) {
+      types = (await dataset.match(term, rdfType, null)).map((quad) => quad.object.value);
+      typeCache.set(key, types);
+    }
+    return types;
+  };
+
+  const properties: PropertyInfo[] = [];
+  const iris = Array.from(counts.keys());
+  for (const [index, iri] of iris.entries()) {
+    signal?.throwIfAborted();
+    const property = factory.namedNode(iri);
+    const [domains, ranges, sample] = await Promise.all([
+      dataset.match(property, factory.namedNode(RDFS_DOMAIN), null),
+      dataset.match(property, factory.namedNode(RDFS_RANGE), null),
+      dataset.match(null, property, null, { limit: sampleSize }),
+    ]);
+
+    const subjectTypes = new Map<string, number>();
+    const objectTypes = new Map<string, number>();
+    for (const quad of sample) {
+      const [subjectTypeList, objectTypeList] = await Promise.all([typesOf(quad.subject), typesOf(quad.object)]);
+      subjectTypeList.forEach((type) => increment(subjectTypes, type));
+      objectTypeList.forEach((type) => increment(objectTypes, type));
+    }
+
+    properties.push({
+      iri,
+      tripleCount: counts.get(iri)!,
+      declaredAs: declaredAs.get(iri) ?? [],
+      domains: domains.map((quad) => quad.object.value),
+      ranges: ranges.map((quad) => quad.object.value),
+      subjectTypes: sortedEntries(subjectTypes),
+      objectTypes: sortedEntries(objectTypes),
+      sampledTriples: sample.length,
+    });
+    onProgress?.({ phase: 'details', processed: index + 1, total: iris.length });
+  }
+
+  return properties.sort((a, b) => b.tripleCount - a.tripleCount || a.iri.localeCompare(b.iri));
+}
@@ -0,0 +1,51 @@
+// Dataset file formats the app can load.
+//
+// HDT files are loaded by the WASM library; the text formats are parsed in the
+// dataset worker into an in-memory store with the same query surface.
+
+export type RdfFormat = 'hdt' | 'n-triples' | 'turtle' | 'n-quads';
+
+export const RDF_FORMAT_LABELS: Record<RdfFormat, string> = {
+  hdt: 'HDT',
+  'n-triples': 'N-Triples',
+  turtle: 'Turtle',
+  'n-quads': 'N-Quads',
+};
+
+const EXTENSION_FORMATS: Record<string, RdfFormat> = {
+  '.hdt': 'hdt',
+  '.nt': 'n-triples',
+  '.ttl': 'turtle',
+  '.nq': 'n-quads',
+};
+
+// Suffixes of compressed files (e.g. dataset.hdt.gz); the data itself is
+// recognized by its magic bytes and unpacked before loading
+const COMPRESSION_EXTENSIONS = ['.gz', '.deflate'];
+
+// Value for the accept attribute of file inputs
+export const RDF_FILE_ACCEPT = [...Object.keys(EXTENSION_FORMATS), ...COMPRESSION_EXTENSIONS].join(',');
+
+// Name for a dataset that came without one
+export function defaultFileName(format: RdfFormat): string {
+  const extension = Object.keys(EXTENSION_FORMATS).find((ext) => EXTENSION_FORMATS[ext] === format);
+  return `dataset${extension}`;
+}
+
+// Name of the decompressed file, e.g. dataset.ttl for dataset.ttl.gz
+export function stripCompressionExtension(name: string): string {
+  const compressionExtension = COMPRESSION_EXTENSIONS.find((ext) => name.toLowerCase().endsWith(ext));
+  return compressionExtension ? name.slice(0, -compressionExtension.length) : name;
+}
+
+// Detect the format from a file name or URL path, ignoring query and fragment
+// and a trailing compression suffix
+export function detectRdfFormat(name: string): RdfFormat | null {
+  let path = name.split(/[?#]/)[0].toLowerCase();
+  const compressionExtension = COMPRESSION_EXTENSIONS.find((ext) => path.endsWith(ext));
+  if (compressionExtension) {
+    path = path.slice(0, -compressionExtension.length);
+  }
+  const extension = Object.keys(EXTENSION_FORMATS).find((ext) => path.endsWith(ext));
+  return extension ? EXTENSION_FORMATS[extension] : null;
+}
@@ -0,0 +1,63 @@
+// Syntax errors from parsing N-Triples, Turtle and N-Quads files.
+//
+// The parser only reports a message and a line number; we add the lines around
+// the failing one so the error panel can show where the file went wrong.
+
+import type { RdfFormat } from './rdfFormats';
+
+export interface SourceExcerpt {
+  startLine: number; // 1-based line number of the first entry in `lines`
+  lines: string[];
+}
+
+// Plain-object form, so the error can be posted from the dataset worker
+export interface RdfParseErrorDetails {
+  format: RdfFormat;
+  message: string;
+  line?: number;
+  excerpt?: SourceExcerpt;
+}
+
+export class RdfParseError extends Error {
+  readonly details: RdfParseErrorDetails;
+
+  constructor(details: RdfParseErrorDetails) {
+    super(details.message);
+    this.name = 'RdfParseError';
+    this.details = details;
+  }
+}
+
+const EXCERPT_LINES_BEFORE = 3;
+const EXCERPT_LINES_AFTER = 2;
+// Lines longer than this are cut, so a minified file does not flood the panel
+const EXCERPT_MAX_LINE_LENGTH = 200;
+
+export function excerptAround(text: string, line: number): SourceExcerpt {
+  const lines = text.split(/\r?\n/);
+  const start = Math.max(1, line - EXCERPT_LINES_BEFORE);
+  const end = Math.min(lines.length, line + EXCERPT_LINES_AFTER);
+  return {
+    startLine: start,
+    lines: lines
+      .slice(start - 1, end)
+      .map((l) => (l.length > EXCERPT_MAX_LINE_LENGTH ? `${l.slice(0, EXCERPT_MAX_LINE_LENGTH)}…` : l)),
+  };
+}
+
+// Wrap an error thrown by the N3 parser, which carries the line in err.context
+export function toRdfParseError(err: unknown, text: string, format: RdfFormat): RdfParseError {
+  if (err instanceof RdfParseError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const context = (err as { context?: { line?: number } } | null)?.context;
+  const line = context?.line ?? Number(message.match(/on line (\d+)/)?.[1]);
+  const validLine = Number.isInteger(line) && line > 0 ? line : undefined;
+
+  return new RdfParseError({
+    format,
+    message,
+    line: validLine,
+    excerpt: validLine !== undefined ? excerptAround(text, validLine) : undefined,
+  });
+}
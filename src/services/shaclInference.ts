@@ -0,0 +1,159 @@
+import factory from '@rdfjs/data-model';
+import { Writer } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { profileClassProperties } from './classPropertyProfile';
+import type { ClassPropertyProfile, PropertyUsage } from './classPropertyProfile';
+import { WELL_KNOWN_PREFIXES, namespaceOf } from './namespaces';
+import type { PrefixMap } from './namespaces';
+
+const SH = WELL_KNOWN_PREFIXES.sh;
+const RDF_TYPE = `${WELL_KNOWN_PREFIXES.rdf}type`;
+
+export interface ShapeInferenceProgress {
+  classIri: string;
+  classIndex: number;
+  classCount: number;
+  processedInstances: number;
+  totalInstances: number;
+}
+
+interface ShapeInferenceOptions {
+  // Instances profiled per class; constraints then describe the sample
+  maxInstancesPerClass?: number;
+  // Namespace of the generated shapes; relative to the document by default
+  shapeNamespace?: string;
+  // Extra prefixes for the Turtle output, e.g. the ones applied in the app
+  prefixes?: PrefixMap;
+  signal?: AbortSignal;
+  onProgress?: (progress: ShapeInferenceProgress) => void;
+}
+
+// Node kind that covers every observed object
+function nodeKindOf(usage: PropertyUsage): string | null {
+  const { iri, blankNode, literal } = usage.objectKinds;
+  const kinds = [iri > 0 && 'IRI', blankNode > 0 && 'BlankNode', literal > 0 && 'Literal'].filter(Boolean);
+  switch (kinds.join('|')) {
+    case 'IRI':
+      return 'IRI';
+    case 'BlankNode':
+      return 'BlankNode';
+    case 'Literal':
+      return 'Literal';
+    case 'IRI|BlankNode':
+      return 'BlankNodeOrIRI';
+    case 'IRI|Literal':
+      return 'IRIOrLiteral';
+    case 'BlankNode|Literal':
+      return 'BlankNodeOrLiteral';
+    default:
+      return null;
+  }
+}
+
+// Shape name from the class's local name, made unique among the other shapes
+function shapeName(classIri: string, used: Set<string>): string {
+  const namespace = namespaceOf(classIri);
+  const localName = (namespace ? classIri.slice(namespace.length) : 'Class').replace(/[^\w-]/g, '_') || 'Class';
+  let name = `${localName}Shape`;
+  for (let i = 2; used.has(name); i++) {
+    name = `${localName}Shape${i}`;
+  }
+  used.add(name);
+  return name;
+}
+
+function addShape(writer: Writer, shape: Quad['subject'], profile: ClassPropertyProfile) {
+  const sh = (name: string) => factory.namedNode(`${SH}${name}`);
+  const integer = (value: number) =>
+    factory.literal(String(value), factory.namedNode(`${WELL_KNOWN_PREFIXES.xsd}integer`));
+  const add = (predicate: Quad['predicate'], object: Quad['object']) =>
+    writer.addQuad(factory.quad(shape, predicate, object));
+
+  add(factory.namedNode(RDF_TYPE), sh('NodeShape'));
+  add(sh('targetClass'), factory.namedNode(profile.classIri));
+
+  for (const usage of profile.properties) {
+    if (usage.predicate === RDF_TYPE) continue;
+    const constraints: Array<{ predicate: Quad['predicate']; object: Quad['object'] }> = [
+      { predicate: sh('path'), object: factory.namedNode(usage.predicate) },
+    ];
+    if (usage.minCardinality > 0) {
+      constraints.push({ predicate: sh('minCount'), object: integer(usage.minCardinality) });
+    }
+    // Larger maxima are usually incidental to the data at hand, a single value is a rule
+    if (usage.maxCardinality === 1) {
+      constraints.push({ predicate: sh('maxCount'), object: integer(1) });
+    }
+    const nodeKind = nodeKindOf(usage);
+    if (nodeKind) {
+      constraints.push({ predicate: sh('nodeKind'), object: sh(nodeKind) });
+    }
+    if (nodeKind === 'Literal' && usage.datatypes.length === 1) {
+      constraints.push({ predicate: sh('datatype'), object: factory.namedNode(usage.datatypes[0].value) });
+    }
+    // Classes shared by every non-literal object
+    const resources = usage.objectKinds.iri + usage.objectKinds.blankNode;
+    if (resources > 0 && usage.objectKinds.literal === 0) {
+      for (const entry of usage.objectClasses) {
+        if (entry.count === resources) {
+          constraints.push({ predicate: sh('class'), object: factory.namedNode(entry.value) });
+        }
+      }
+    }
+    add(sh('property'), writer.blank(constraints));
+  }
+}
+
+/**
+ * Infer one sh:NodeShape per class from its instances.
+ *
+ * Each class is profiled with profileClassProperties, resolving the classes
+ * of linked resources for sh:class. Constraints only state what held for
+ * every profiled instance: sh:minCount for properties all of them have,
+ * sh:maxCount 1 for single-valued ones, and the node kind, datatype and
+ * classes all values share.
+ */
+export async function inferShapes(
+  dataset: DatasetHandle,
+  classIris: string[],
+  { maxInstancesPerClass = 1000, shapeNamespace = '#', prefixes = {}, signal, onProgress }: ShapeInferenceOptions = {}
+): Promise<string> {
+  const profiles: ClassPropertyProfile[] = [];
+  for (const [classIndex, classIri] of classIris.entries()) {
+    profiles.push(
+      await profileClassProperties(dataset, classIri, {
+        signal,
+        maxInstances: maxInstancesPerClass,
+        resolveObjectClasses: true,
+        onProgress: (partial) =>
+          onProgress?.({
+            classIri,
+            classIndex,
+            classCount: classIris.length,
+            processedInstances: partial.processedInstances,
+            totalInstances: Math.min(partial.totalInstances, maxInstancesPerClass),
+          }),
+      })
+    );
+  }
+
+  const writer = new Writer({
+    prefixes: {
+      ...prefixes,
+      sh: SH,
+      rdf: WELL_KNOWN_PREFIXES.rdf,
+      xsd: WELL_KNOWN_PREFIXES.xsd,
+    },
+  });
+  const usedNames = new Set<string>();
+  for (const profile of profiles) {
+    // Classes without instances give nothing to infer from
+    if (profile.processedInstances === 0) continue;
+    addShape(writer, factory.namedNode(`${shapeNamespace}${shapeName(profile.classIri, usedNames)}`), profile);
+  }
+
+  return new Promise((resolve, reject) => {
+    writer.end((error, result: string) => (error ? reject(error) : resolve(result)));
+  });
+}
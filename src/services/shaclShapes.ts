@@ -0,0 +1,270 @@
+// SHACL shapes read from a Turtle file, reduced to the core subset the
+// validator checks: targets, sh:property with predicate or inverse paths
+// (or a targeted shape with its own sh:path), and the class, datatype,
+// nodeKind, minCount, maxCount, pattern and in constraint components.
+
+import { Parser, Store } from 'n3';
+import type { Quad, Term } from '@rdfjs/types';
+import { WELL_KNOWN_PREFIXES } from './namespaces';
+import { toRdfParseError } from './rdfParseError';
+import { resourceKey } from '../utils/resourceKey';
+
+const SH = WELL_KNOWN_PREFIXES.sh;
+const RDF = WELL_KNOWN_PREFIXES.rdf;
+const RDFS = WELL_KNOWN_PREFIXES.rdfs;
+
+export type NodeKind = 'IRI' | 'BlankNode' | 'Literal' | 'BlankNodeOrIRI' | 'BlankNodeOrLiteral' | 'IRIOrLiteral';
+export type Severity = 'Violation' | 'Warning' | 'Info';
+
+export interface ShapeConstraints {
+  classes: string[];
+  datatype?: string;
+  nodeKind?: NodeKind;
+  minCount?: number;
+  maxCount?: number;
+  pattern?: RegExp;
+  // Allowed values, compared by term type, value, datatype and language
+  in?: Term[];
+}
+
+export interface PropertyShape extends ShapeConstraints {
+  id: string;
+  path: { predicate: string; inverse: boolean };
+  severity: Severity;
+  message?: string;
+}
+
+export interface NodeShape extends ShapeConstraints {
+  id: string;
+  targets: {
+    classes: string[];
+    nodes: Term[];
+    subjectsOf: string[];
+    objectsOf: string[];
+  };
+  properties: PropertyShape[];
+  severity: Severity;
+  message?: string;
+}
+
+export interface ShapesGraph {
+  shapes: NodeShape[];
+  // Parts of the file the validator does not understand and skips
+  warnings: string[];
+}
+
+const NODE_KINDS = new Set<string>([
+  'IRI',
+  'BlankNode',
+  'Literal',
+  'BlankNodeOrIRI',
+  'BlankNodeOrLiteral',
+  'IRIOrLiteral',
+]);
+
+// Constraint components outside the supported subset; each use is reported
+const UNSUPPORTED = [
+  'node',
+  'qualifiedValueShape',
+  'or',
+  'and',
+  'not',
+  'xone',
+  'hasValue',
+  'equals',
+  'disjoint',
+  'lessThan',
+  'minLength',
+  'maxLength',
+  'minInclusive',
+  'maxInclusive',
+  'minExclusive',
+  'maxExclusive',
+  'languageIn',
+  'uniqueLang',
+  'closed',
+  'sparql',
+];
+
+class ShapeReader {
+  private store: Store;
+  readonly warnings: string[] = [];
+
+  constructor(quads: Quad[]) {
+    this.store = new Store(quads);
+  }
+
+  sh(subject: Term, name: string): Term[] {
+    return this.store.getObjects(subject, `${SH}${name}`, null);
+  }
+
+  first(subject: Term, name: string): Term | undefined {
+    return this.sh(subject, name)[0];
+  }
+
+  integer(subject: Term, name: string): number | undefined {
+    const term = this.first(subject, name);
+    const value = term ? Number.parseInt(term.value, 10) : NaN;
+    return Number.isInteger(value) ? value : undefined;
+  }
+
+  // Members of an RDF collection
+  list(head: Term): Term[] {
+    const items: Term[] = [];
+    const seen = new Set<string>();
+    let node: Term | undefined = head;
+    while (node && node.value !== `${RDF}nil` && !seen.has(resourceKey(node))) {
+      seen.add(resourceKey(node));
+      const item = this.store.getObjects(node, `${RDF}first`, null)[0];
+      if (item) items.push(item);
+      node = this.store.getObjects(node, `${RDF}rest`, null)[0];
+    }
+    return items;
+  }
+
+  constraints(shape: Term, label: string): ShapeConstraints {
+    const constraints: ShapeConstraints = {
+      classes: this.sh(shape, 'class').map((term) => term.value),
+      datatype: this.first(shape, 'datatype')?.value,
+      minCount: this.integer(shape, 'minCount'),
+      maxCount: this.integer(shape, 'maxCount'),
+    };
+
+    const nodeKind = this.first(shape, 'nodeKind')?.value.slice(SH.length);
+    if (nodeKind && NODE_KINDS.has(nodeKind)) {
+      constraints.nodeKind = nodeKind as NodeKind;
+    }
+
+    const pattern = this.first(shape, 'pattern')?.value;
+    if (pattern !== undefined) {
+      try {
+        constraints.pattern = new RegExp(pattern, this.first(shape, 'flags')?.value.replace(/[^imsu]/g, '') ?? '');
+      } catch {
+        this.warnings.push(`${label}: sh:pattern "${pattern}" is not a valid regular expression`);
+      }
+    }
+
+    const inList = this.first(shape, 'in');
+    if (inList) {
+      constraints.in = this.list(inList);
+    }
+
+    for (const name of UNSUPPORTED) {
+      if (this.sh(shape, name).length > 0) {
+        this.warnings.push(`${label}: sh:${name} is not supported and was skipped`);
+      }
+    }
+    return constraints;
+  }
+
+  severity(shape: Term): Severity {
+    const value = this.first(shape, 'severity')?.value.slice(SH.length);
+    return value === 'Warning' || value === 'Info' ? value : 'Violation';
+  }
+
+  message(shape: Term): string | undefined {
+    return this.first(shape, 'message')?.value;
+  }
+
+  propertyShape(shape: Term, nodeLabel: string): PropertyShape | null {
+    const label = `${nodeLabel} / ${resourceKey(shape)}`;
+    const path = this.first(shape, 'path');
+    let predicate: string | undefined;
+    let inverse = false;
+    if (path?.termType === 'NamedNode') {
+      predicate = path.value;
+    } else if (path) {
+      const inversePath = this.first(path, 'inversePath');
+      if (inversePath?.termType === 'NamedNode') {
+        predicate = inversePath.value;
+        inverse = true;
+      }
+    }
+    if (!predicate) {
+      this.warnings.push(`${label}: only predicate and sh:inversePath paths are supported; skipped`);
+      return null;
+    }
+    return {
+      id: resourceKey(shape),
+      path: { predicate, inverse },
+      severity: this.severity(shape),
+      message: this.message(shape),
+      ...this.constraints(shape, label),
+    };
+  }
+
+  nodeShapes(): NodeShape[] {
+    // Node shapes are typed sh:NodeShape or recognized by their targets
+    const candidates = new Map<string, Term>();
+    const add = (term: Term) => candidates.set(resourceKey(term), term);
+    this.store.getSubjects(`${RDF}type`, `${SH}NodeShape`, null).forEach(add);
+    for (const target of ['targetClass', 'targetNode', 'targetSubjectsOf', 'targetObjectsOf']) {
+      this.store.getSubjects(`${SH}${target}`, null, null).forEach(add);
+    }
+
+    return Array.from(candidates.values(), (shape) => {
+      const label = resourceKey(shape);
+      const targetClasses = this.sh(shape, 'targetClass').map((term) => term.value);
+      // Implicit class target: a shape that is also a class targets its instances
+      const isClass =
+        this.store.countQuads(shape, `${RDF}type`, `${RDFS}Class`, null) > 0 ||
+        this.store.countQuads(shape, `${RDF}type`, `${WELL_KNOWN_PREFIXES.owl}Class`, null) > 0;
+      if (isClass && shape.termType === 'NamedNode' && !targetClasses.includes(shape.value)) {
+        targetClasses.push(shape.value);
+      }
+
+      const targets = {
+        classes: targetClasses,
+        nodes: this.sh(shape, 'targetNode'),
+        subjectsOf: this.sh(shape, 'targetSubjectsOf').map((term) => term.value),
+        objectsOf: this.sh(shape, 'targetObjectsOf').map((term) => term.value),
+      };
+
+      // A targeted shape with sh:path is a property shape: its constraints apply
+      // to the path values, so it is wrapped in a node shape with its targets
+      if (this.first(shape, 'path')) {
+        const property = this.propertyShape(shape, label);
+        return {
+          id: label,
+          targets,
+          properties: property ? [property] : [],
+          severity: property?.severity ?? 'Violation',
+          classes: [],
+        };
+      }
+
+      return {
+        id: label,
+        targets,
+        properties: this.sh(shape, 'property')
+          .map((property) => this.propertyShape(property, label))
+          .filter((property): property is PropertyShape => property !== null),
+        severity: this.severity(shape),
+        message: this.message(shape),
+        ...this.constraints(shape, label),
+      };
+    });
+  }
+}
+
+/**
+ * Parse a Turtle shapes file. Syntax errors are thrown as RdfParseError, so
+ * they can be shown like dataset parse errors.
+ */
+export function parseShapes(text: string): ShapesGraph {
+  let quads: Quad[];
+  try {
+    quads = new Parser({ format: 'Turtle' }).parse(text);
+  } catch (err) {
+    throw toRdfParseError(err, text, 'turtle');
+  }
+  const reader = new ShapeReader(quads);
+  const shapes = reader.nodeShapes();
+  for (const shape of shapes) {
+    const { classes, nodes, subjectsOf, objectsOf } = shape.targets;
+    if (classes.length + nodes.length + subjectsOf.length + objectsOf.length === 0) {
+      reader.warnings.push(`${shape.id}: no target, so no focus nodes are validated`);
+    }
+  }
+  return { shapes, warnings: reader.warnings };
+}
@@ -0,0 +1,272 @@
+import factory from '@rdfjs/data-model';
+import type { Quad, Term } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { WELL_KNOWN_PREFIXES } from './namespaces';
+import type { NodeKind, NodeShape, PropertyShape, ShapeConstraints, ShapesGraph, Severity } from './shaclShapes';
+import { termKey } from '../utils/resourceKey';
+
+const SH = WELL_KNOWN_PREFIXES.sh;
+const RDF_TYPE = `${WELL_KNOWN_PREFIXES.rdf}type`;
+const RDFS_SUBCLASS_OF = `${WELL_KNOWN_PREFIXES.rdfs}subClassOf`;
+
+export interface ValidationResult {
+  focusNode: Term;
+  shape: string;
+  // Predicate of the property shape; undefined for node constraints
+  path?: string;
+  inversePath?: boolean;
+  // Full IRI of the constraint component, e.g. sh:MinCountConstraintComponent
+  component: string;
+  value?: Term;
+  severity: Severity;
+  message: string;
+}
+
+export interface ValidationReport {
+  conforms: boolean;
+  results: ValidationResult[];
+  focusNodes: number;
+  // Set when maxResults was reached and validation stopped early
+  truncated: boolean;
+}
+
+export interface ValidationProgress {
+  shape: string;
+  shapeIndex: number;
+  shapeCount: number;
+  focusNodes: number;
+  results: number;
+}
+
+interface ValidationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ValidationProgress) => void;
+  maxResults?: number;
+  pageSize?: number;
+}
+
+// Term types allowed by each sh:nodeKind value
+const NODE_KIND_TERM_TYPES: Record<NodeKind, Term['termType'][]> = {
+  IRI: ['NamedNode'],
+  BlankNode: ['BlankNode'],
+  Literal: ['Literal'],
+  BlankNodeOrIRI: ['BlankNode', 'NamedNode'],
+  BlankNodeOrLiteral: ['BlankNode', 'Literal'],
+  IRIOrLiteral: ['NamedNode', 'Literal'],
+};
+
+function matchesNodeKind(term: Term, nodeKind: NodeKind): boolean {
+  return NODE_KIND_TERM_TYPES[nodeKind].includes(term.termType);
+}
+
+// Thrown internally once maxResults results have been collected
+class ResultLimitReached extends Error {}
+
+/**
+ * Validate a dataset against a shapes graph, shape by shape.
+ *
+ * Focus nodes are streamed from the targets (class targets include instances
+ * of subclasses). Class membership and subclass closures are looked up lazily
+ * and cached for the whole run, since the same classes come up for most focus
+ * nodes. Aborting stops between focus node pages with AbortError.
+ */
+export async function validateDataset(
+  dataset: DatasetHandle,
+  shapesGraph: ShapesGraph,
+  { signal, onProgress, maxResults = 10000, pageSize = 500 }: ValidationOptions = {}
+): Promise<ValidationReport> {
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const subClassOf = factory.namedNode(RDFS_SUBCLASS_OF);
+  const results: ValidationResult[] = [];
+  const subclassCache = new Map<string, Set<string>>();
+  const typeCache = new Map<string, Set<string>>();
+  let focusNodeCount = 0;
+
+  // The class and all of its (indirect) subclasses
+  const subclassesOf = async (classIri: string): Promise<Set<string>> => {
+    let closure = subclassCache.get(classIri);
+    if (!closure) {
+      closure = new Set([classIri]);
+      const queue = [classIri];
+      while (queue.length > 0) {
+        const quads = await dataset.match(null, subClassOf, factory.namedNode(queue.pop()!));
+        for (const quad of quads) {
+          if (quad.subject.termType === 'NamedNode' && !closure.has(quad.subject.value)) {
+            closure.add(quad.subject.value);
+            queue.push(quad.subject.value);
+          }
+        }
+      }
+      subclassCache.set(classIri, closure);
+    }
+    return closure;
+  };
+
+  const typesOf = async (term: Term): Promise<Set<string>> => {
+    const key = termKey(term);
+    let types = typeCache.get(key);
+    if (!types) {
+      types = new Set();
+      if (term.termType !== 'Literal') {
+        for (const quad of await dataset.match(term, rdfType, null)) {
+          types.add(quad.object.value);
+        }
+      }
+      typeCache.set(key, types);
+    }
+    return types;
+  };
+
+  const report = (result: ValidationResult) => {
+    results.push(result);
+    if (results.length >= maxResults) throw new ResultLimitReached();
+  };
+
+  // Value-level constraints, shared by node shapes (value = focus node) and property shapes
+  const checkValue = async (
+    focusNode: Term,
+    value: Term,
+    constraints: ShapeConstraints,
+    base: Pick<ValidationResult, 'shape' | 'path' | 'inversePath' | 'severity'>,
+    customMessage: string | undefined
+  ) => {
+    const fail = (component: string, message: string) =>
+      report({ ...base, focusNode, value, component: `${SH}${component}`, message: customMessage ?? message });
+
+    if (constraints.nodeKind && !matchesNodeKind(value, constraints.nodeKind)) {
+      fail('NodeKindConstraintComponent', `Value is not of node kind sh:${constraints.nodeKind}`);
+    }
+    if (constraints.datatype) {
+      const datatype = value.termType === 'Literal' ? value.datatype.value : null;
+      if (datatype !== constraints.datatype) {
+        fail('DatatypeConstraintComponent', `Value does not have datatype ${constraints.datatype}`);
+      }
+    }
+    for (const classIri of constraints.classes) {
+      const types = await typesOf(value);
+      const accepted = await subclassesOf(classIri);
+      if (!Array.from(types).some((type) => accepted.has(type))) {
+        fail('ClassConstraintComponent', `Value is not an instance of ${classIri}`);
+      }
+    }
+    if (constraints.pattern) {
+      constraints.pattern.lastIndex = 0;
+      if (value.termType === 'BlankNode' || !constraints.pattern.test(value.value)) {
+        fail('PatternConstraintComponent', `Value does not match the pattern ${constraints.pattern.source}`);
+      }
+    }
+    if (constraints.in && !constraints.in.some((allowed) => termKey(allowed) === termKey(value))) {
+      fail('InConstraintComponent', 'Value is not one of the allowed values');
+    }
+  };
+
+  const checkProperty = async (focusNode: Term, shape: NodeShape, property: PropertyShape) => {
+    const predicate = factory.namedNode(property.path.predicate);
+    // Literals have no outgoing triples, but can be reached through an inverse path
+    const values = property.path.inverse
+      ? (await dataset.match(null, predicate, focusNode)).map((quad) => quad.subject)
+      : focusNode.termType === 'Literal'
+        ? []
+        : (await dataset.match(focusNode as Quad['subject'], predicate, null)).map((quad) => quad.object);
+    const base = {
+      shape: shape.id,
+      path: property.path.predicate,
+      inversePath: property.path.inverse || undefined,
+      severity: property.severity,
+    };
+
+    if (property.minCount !== undefined && values.length < property.minCount) {
+      report({
+        ...base,
+        focusNode,
+        component: `${SH}MinCountConstraintComponent`,
+        message: property.message ?? `Less than ${property.minCount} values (found ${values.length})`,
+      });
+    }
+    if (property.maxCount !== undefined && values.length > property.maxCount) {
+      report({
+        ...base,
+        focusNode,
+        component: `${SH}MaxCountConstraintComponent`,
+        message: property.message ?? `More than ${property.maxCount} values (found ${values.length})`,
+      });
+    }
+    for (const value of values) {
+      await checkValue(focusNode, value, property, base, property.message);
+    }
+  };
+
+  // Focus nodes of a shape, deduplicated across its targets, one page at a time
+  async function* focusNodesOf(shape: NodeShape): AsyncGenerator<Term[]> {
+    const seen = new Set<string>();
+    const fresh = (terms: Term[]) =>
+      terms.filter((term) => {
+        const key = termKey(term);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    yield fresh(shape.targets.nodes);
+    for (const targetClass of shape.targets.classes) {
+      for (const classIri of await subclassesOf(targetClass)) {
+        for await (const page of dataset.iterate(null, rdfType, factory.namedNode(classIri), pageSize)) {
+          yield fresh(page.map((quad) => quad.subject));
+        }
+      }
+    }
+    for (const predicate of shape.targets.subjectsOf) {
+      for await (const page of dataset.iterate(null, factory.namedNode(predicate), null, pageSize)) {
+        yield fresh(page.map((quad) => quad.subject));
+      }
+    }
+    for (const predicate of shape.targets.objectsOf) {
+      for await (const page of dataset.iterate(null, factory.namedNode(predicate), null, pageSize)) {
+        yield fresh(page.map((quad) => quad.object));
+      }
+    }
+  }
+
+  let truncated = false;
+  try {
+    for (const [shapeIndex, shape] of shapesGraph.shapes.entries()) {
+      const progress = () =>
+        onProgress?.({
+          shape: shape.id,
+          shapeIndex,
+          shapeCount: shapesGraph.shapes.length,
+          focusNodes: focusNodeCount,
+          results: results.length,
+        });
+      progress();
+      for await (const page of focusNodesOf(shape)) {
+        signal?.throwIfAborted();
+        for (const focusNode of page) {
+          focusNodeCount++;
+          await checkValue(
+            focusNode,
+            focusNode,
+            shape,
+            { shape: shape.id, severity: shape.severity },
+            shape.message
+          );
+          for (const property of shape.properties) {
+            await checkProperty(focusNode, shape, property);
+          }
+        }
+        progress();
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof ResultLimitReached)) throw err;
+    truncated = true;
+  }
+
+  return {
+    // Any result, whatever its severity, means the data does not conform
+    conforms: results.length === 0,
+    results,
+    focusNodes: focusNodeCount,
+    truncated,
+  };
+}
@@ -0,0 +1,120 @@
+import factory from '@rdfjs/data-model';
+import { Writer } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import type { DatasetHandle } from './datasetClient';
+import { profileDataset } from './datasetProfile';
+import { WELL_KNOWN_PREFIXES, namespaceOf } from './namespaces';
+
+const VOID = WELL_KNOWN_PREFIXES.void;
+const RDF_TYPE = `${WELL_KNOWN_PREFIXES.rdf}type`;
+const XSD_DATE = `${WELL_KNOWN_PREFIXES.xsd}date`;
+
+export interface VoidProgress {
+  phase: 'triples' | 'classes';
+  processed: number;
+  total: number;
+}
+
+interface VoidOptions {
+  title: string;
+  // IRI of the described dataset; relative to the document by default
+  datasetIri?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: VoidProgress) => void;
+}
+
+/**
+ * Compute VoID statistics for a dataset and serialize them as Turtle.
+ *
+ * Dataset-level counts and property partitions come from one profiling pass;
+ * class partitions count the rdf:type triples per class, like the class list.
+ */
+export async function buildVoidDescription(
+  dataset: DatasetHandle,
+  { title, datasetIri = '#dataset', signal, onProgress }: VoidOptions
+): Promise<string> {
+  const profile = await profileDataset(dataset, {
+    signal,
+    topPredicateCount: Infinity,
+    onProgress: (partial) =>
+      onProgress?.({ phase: 'triples', processed: partial.processedTriples, total: partial.totalTriples }),
+  });
+
+  const rdfType = factory.namedNode(RDF_TYPE);
+  const typeTriples = await dataset.countMatches(null, rdfType, null);
+  const classCounts = new Map<string, number>();
+  let processed = 0;
+  for await (const page of dataset.iterate(null, rdfType, null)) {
+    signal?.throwIfAborted();
+    for (const quad of page) {
+      if (quad.object.termType === 'NamedNode') {
+        classCounts.set(quad.object.value, (classCounts.get(quad.object.value) ?? 0) + 1);
+      }
+    }
+    processed += page.length;
+    onProgress?.({ phase: 'classes', processed, total: typeTriples });
+  }
+
+  // Vocabularies are the namespaces of all properties and classes in use
+  const vocabularies = new Set<string>();
+  for (const iri of [...profile.topPredicates.map((entry) => entry.value), ...classCounts.keys()]) {
+    const namespace = namespaceOf(iri);
+    if (namespace) vocabularies.add(namespace);
+  }
+
+  const writer = new Writer({
+    prefixes: {
+      void: VOID,
+      rdf: WELL_KNOWN_PREFIXES.rdf,
+      xsd: WELL_KNOWN_PREFIXES.xsd,
+      dcterms: WELL_KNOWN_PREFIXES.dcterms,
+    },
+  });
+  const subject = factory.namedNode(datasetIri);
+  const voidTerm = (name: string) => factory.namedNode(`${VOID}${name}`);
+  const integer = (value: number) =>
+    factory.literal(String(value), factory.namedNode(`${WELL_KNOWN_PREFIXES.xsd}integer`));
+  const add = (predicate: string, object: Quad['object']) =>
+    writer.addQuad(factory.quad(subject, factory.namedNode(predicate), object));
+
+  add(RDF_TYPE, voidTerm('Dataset'));
+  add(`${WELL_KNOWN_PREFIXES.dcterms}title`, factory.literal(title));
+  add(
+    `${WELL_KNOWN_PREFIXES.dcterms}created`,
+    factory.literal(new Date().toISOString().slice(0, 10), factory.namedNode(XSD_DATE))
+  );
+  add(`${VOID}triples`, integer(profile.totalTriples));
+  add(`${VOID}distinctSubjects`, integer(profile.distinctSubjects));
+  add(`${VOID}properties`, integer(profile.distinctPredicates));
+  add(`${VOID}distinctObjects`, integer(profile.distinctObjects));
+  add(`${VOID}classes`, integer(classCounts.size));
+
+  for (const vocabulary of Array.from(vocabularies).sort()) {
+    add(`${VOID}vocabulary`, factory.namedNode(vocabulary));
+  }
+
+  const sortedClasses = Array.from(classCounts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  for (const [classIri, count] of sortedClasses) {
+    add(
+      `${VOID}classPartition`,
+      writer.blank([
+        { predicate: voidTerm('class'), object: factory.namedNode(classIri) },
+        { predicate: voidTerm('entities'), object: integer(count) },
+      ])
+    );
+  }
+
+  for (const { value: propertyIri, count } of profile.topPredicates) {
+    add(
+      `${VOID}propertyPartition`,
+      writer.blank([
+        { predicate: voidTerm('property'), object: factory.namedNode(propertyIri) },
+        { predicate: voidTerm('triples'), object: integer(count) },
+      ])
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    writer.end((error, result: string) => (error ? reject(error) : resolve(result)));
+  });
+}
@@ -0,0 +1,107 @@
+// WebAssembly capability probing.
+//
+// Instead of guessing from the user agent, we ask the engine to validate tiny
+// modules that declare a memory. A module with a memory64 memory only
+// validates where memory64 is implemented, and engines reject memories whose
+// initial size exceeds their implementation limit, which lets us find the
+// maximum memory by binary search without allocating anything.
+
+export interface WasmCapabilities {
+  webAssembly: boolean;
+  memory64: boolean;
+  // Largest memory the engine accepts, in bytes (undefined if not detectable)
+  maxMemory32Bytes?: number;
+  maxMemory64Bytes?: number;
+  // Chromium-only JS heap limit from performance.memory
+  jsHeapLimitBytes?: number;
+}
+
+const WASM_PAGE_SIZE = 64 * 1024;
+// Upper bounds for the search: 4 GiB for 32-bit memories, 1 TiB for memory64
+const MAX_PAGES_32 = 2 ** 16;
+const MAX_PAGES_64 = 2 ** 24;
+
+// Limits flags of the memory type: 0x00 = 32-bit index, 0x04 = 64-bit index
+const LIMITS_I32 = 0x00;
+const LIMITS_I64 = 0x04;
+
+function encodeUnsignedLeb128(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value > 0);
+  return bytes;
+}
+
+// Build a module that only contains a memory section with the given limits
+function memoryModule(limitsFlag: number, initialPages: number): Uint8Array<ArrayBuffer> {
+  const memoryType = [0x01, limitsFlag, ...encodeUnsignedLeb128(initialPages)];
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, // \0asm
+    0x01, 0x00, 0x00, 0x00, // version 1
+    0x05, // memory section
+    ...encodeUnsignedLeb128(memoryType.length),
+    ...memoryType,
+  ]);
+}
+
+function validates(limitsFlag: number, initialPages: number): boolean {
+  try {
+    return WebAssembly.validate(memoryModule(limitsFlag, initialPages));
+  } catch {
+    return false;
+  }
+}
+
+// Largest initial page count the engine validates, up to the search bound
+function findMaxPages(limitsFlag: number, upperBound: number): number {
+  if (validates(limitsFlag, upperBound)) return upperBound;
+  let low = 1;
+  let high = upperBound;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (validates(limitsFlag, mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+let cached: WasmCapabilities | null = null;
+
+export function detectWasmCapabilities(): WasmCapabilities {
+  if (cached) return cached;
+
+  const performanceMemory = (performance as Performance & {
+    memory?: { jsHeapSizeLimit: number };
+  }).memory;
+  const jsHeapLimitBytes = performanceMemory?.jsHeapSizeLimit;
+
+  if (typeof WebAssembly === 'undefined' || !validates(LIMITS_I32, 1)) {
+    cached = { webAssembly: false, memory64: false, jsHeapLimitBytes };
+    return cached;
+  }
+
+  const memory64 = validates(LIMITS_I64, 1);
+  const maxPages32 = findMaxPages(LIMITS_I32, MAX_PAGES_32);
+  const maxPages64 = memory64 ? findMaxPages(LIMITS_I64, MAX_PAGES_64) : undefined;
+
+  cached = {
+    webAssembly: true,
+    memory64,
+    maxMemory32Bytes: maxPages32 * WASM_PAGE_SIZE,
+    // Engines that do not check the limit at validation time accept the search
+    // bound itself; the real limit is unknown then
+    maxMemory64Bytes:
+      maxPages64 !== undefined && maxPages64 < MAX_PAGES_64
+        ? maxPages64 * WASM_PAGE_SIZE
+        : undefined,
+    jsHeapLimitBytes,
+  };
+  return cached;
+}
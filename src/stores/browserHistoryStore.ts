@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import type { BrowserTree } from '../components/graphBrowserTree';
+
+export interface BrowserHistoryEntry {
+  iri: string;
+  // Tree as it was last shown, restored when the entry is shown again
+  tree?: BrowserTree;
+}
+
+// Roots visited in the graph browser. Kept outside the component so the
+// history survives switching tabs or opening the specialized view; the app
+// resets it whenever another dataset becomes active.
+interface BrowserHistoryStore {
+  entries: BrowserHistoryEntry[];
+  // The entry shown, -1 before the first root is loaded
+  index: number;
+  // Last open request browsed to, so a remounted browser does not repeat it
+  handledRequestId: number | null;
+  // Show a new root, dropping the entries ahead of the current one
+  push: (iri: string) => void;
+  goTo: (index: number) => void;
+  saveTree: (tree: BrowserTree) => void;
+  setHandledRequestId: (requestId: number) => void;
+  reset: () => void;
+}
+
+export const useBrowserHistoryStore = create<BrowserHistoryStore>((set) => ({
+  entries: [],
+  index: -1,
+  handledRequestId: null,
+
+  push: (iri) => {
+    set((state) => ({
+      entries: [...state.entries.slice(0, state.index + 1), { iri }],
+      index: state.index + 1,
+    }));
+  },
+
+  goTo: (index) => {
+    set((state) => (index >= 0 && index < state.entries.length ? { index } : state));
+  },
+
+  saveTree: (tree) => {
+    set((state) => {
+      const current = state.entries[state.index];
+      if (!current) return state;
+      const entries = [...state.entries];
+      entries[state.index] = { ...current, tree };
+      return { entries };
+    });
+  },
+
+  setHandledRequestId: (requestId) => {
+    set({ handledRequestId: requestId });
+  },
+
+  reset: () => {
+    set({ entries: [], index: -1, handledRequestId: null });
+  },
+}));
@@ -0,0 +1,88 @@
+import { create } from 'zustand';
+import type { DatasetHandle } from '../services/datasetClient';
+import { DEFAULT_LABEL_PREDICATES, browserLanguages, resolveLabel } from '../services/labelResolver';
+
+interface LabelStore {
+  // Dataset labels are resolved from; the app keeps it in sync with the active one
+  dataset: DatasetHandle | null;
+  predicates: string[];
+  languages: string[];
+  // resource -> label, null when the resource has none
+  labels: Map<string, string | null>;
+  setDataset: (dataset: DatasetHandle | null) => void;
+  setPredicates: (predicates: string[]) => void;
+  setLanguages: (languages: string[]) => void;
+  resetSettings: () => void;
+  // Resolve a label in the background; safe to call while rendering
+  requestLabel: (resource: string) => void;
+}
+
+// Resources waiting for the next batch, and those being resolved
+const queued = new Set<string>();
+const inFlight = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped whenever cached labels go stale, so late results are dropped
+let generation = 0;
+
+export const useLabelStore = create<LabelStore>((set, get) => {
+  const flush = async () => {
+    flushTimer = null;
+    const { dataset, predicates, languages } = get();
+    const resources = Array.from(queued);
+    queued.clear();
+    if (!dataset || resources.length === 0) return;
+
+    const batchGeneration = generation;
+    resources.forEach((resource) => inFlight.add(resource));
+    const entries = await Promise.all(
+      resources.map(async (resource): Promise<[string, string | null]> => {
+        try {
+          return [resource, (await resolveLabel(dataset, resource, { predicates, languages })) ?? null];
+        } catch (error) {
+          console.error('Error resolving label for', resource, error);
+          return [resource, null];
+        }
+      })
+    );
+    if (batchGeneration !== generation) return;
+    resources.forEach((resource) => inFlight.delete(resource));
+    set((state) => ({ labels: new Map([...state.labels, ...entries]) }));
+  };
+
+  // Forget all labels; they are resolved again when next requested
+  const invalidate = () => {
+    generation++;
+    queued.clear();
+    inFlight.clear();
+    return { labels: new Map<string, string | null>() };
+  };
+
+  return {
+    dataset: null,
+    predicates: [...DEFAULT_LABEL_PREDICATES],
+    languages: browserLanguages(),
+    labels: new Map(),
+
+    setDataset: (dataset) => {
+      if (dataset !== get().dataset) set({ dataset, ...invalidate() });
+    },
+
+    setPredicates: (predicates) => {
+      set({ predicates, ...invalidate() });
+    },
+
+    setLanguages: (languages) => {
+      set({ languages: languages.map((language) => language.toLowerCase()), ...invalidate() });
+    },
+
+    resetSettings: () => {
+      set({ predicates: [...DEFAULT_LABEL_PREDICATES], languages: browserLanguages(), ...invalidate() });
+    },
+
+    requestLabel: (resource) => {
+      if (get().labels.has(resource) || queued.has(resource) || inFlight.has(resource)) return;
+      queued.add(resource);
+      flushTimer ??= setTimeout(flush, 0);
+    },
+  };
+});
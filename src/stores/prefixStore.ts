@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { WELL_KNOWN_PREFIXES } from '../services/namespaces';
+import type { PrefixMap } from '../services/namespaces';
+
+interface PrefixStore {
+  prefixes: PrefixMap; // prefix -> namespace IRI
+  setPrefix: (prefix: string, namespace: string) => void;
+  removePrefix: (prefix: string) => void;
+  mergePrefixes: (prefixes: PrefixMap) => void;
+  resetPrefixes: () => void;
+}
+
+// Drop other prefixes bound to the same namespace, so each namespace has one
+function withoutNamespace(prefixes: PrefixMap, namespace: string): PrefixMap {
+  return Object.fromEntries(Object.entries(prefixes).filter(([, ns]) => ns !== namespace));
+}
+
+export const usePrefixStore = create<PrefixStore>((set) => ({
+  prefixes: { ...WELL_KNOWN_PREFIXES },
+
+  setPrefix: (prefix, namespace) => {
+    set((state) => ({
+      prefixes: { ...withoutNamespace(state.prefixes, namespace), [prefix]: namespace },
+    }));
+  },
+
+  removePrefix: (prefix) => {
+    set((state) => {
+      const prefixes = { ...state.prefixes };
+      delete prefixes[prefix];
+      return { prefixes };
+    });
+  },
+
+  mergePrefixes: (incoming) => {
+    set((state) => {
+      let prefixes = state.prefixes;
+      for (const [prefix, namespace] of Object.entries(incoming)) {
+        prefixes = { ...withoutNamespace(prefixes, namespace), [prefix]: namespace };
+      }
+      return { prefixes };
+    });
+  },
+
+  resetPrefixes: () => {
+    set({ prefixes: { ...WELL_KNOWN_PREFIXES } });
+  },
+}));
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import {
+  listRecentDatasets,
+  rememberDataset,
+  evictDataset,
+} from '../services/datasetCache';
+import type { RecentDataset } from '../services/datasetCache';
+
+interface RecentDatasetsStore {
+  recent: RecentDataset[];
+  refresh: () => Promise<void>;
+  remember: (entry: Omit<RecentDataset, 'lastOpened'>, contents?: Blob) => Promise<void>;
+  evict: (hash: string) => Promise<void>;
+}
+
+export const useRecentDatasetsStore = create<RecentDatasetsStore>((set, get) => ({
+  recent: [],
+
+  refresh: async () => {
+    set({ recent: await listRecentDatasets() });
+  },
+
+  remember: async (entry, contents) => {
+    await rememberDataset(entry, contents);
+    await get().refresh();
+  },
+
+  evict: async (hash) => {
+    await evictDataset(hash);
+    set((state) => ({
+      recent: state.recent.filter((d) => d.hash !== hash),
+    }));
+  },
+}));
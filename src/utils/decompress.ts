@@ -0,0 +1,85 @@
+import { concatChunks } from './fetchWithProgress';
+import type { DownloadProgress } from './fetchWithProgress';
+
+// Container formats DecompressionStream can unpack ('deflate' is zlib-wrapped)
+export type Compression = 'gzip' | 'deflate';
+
+// Size of the slices fed into the decompressor; also the progress granularity
+const INPUT_CHUNK_SIZE = 1024 * 1024;
+
+// Second byte of the zlib headers encoders write after 0x78, one per
+// compression level. Other values with a valid checksum either set FDICT,
+// which DecompressionStream cannot decode, or are plain text such as "x ".
+const ZLIB_LEVEL_BYTES = new Set([0x01, 0x5e, 0x9c, 0xda]);
+
+/**
+ * Detect a compressed container by its magic bytes: 1f 8b for gzip, and one
+ * of the zlib headers encoders write (deflate with a 32 KiB window, no preset
+ * dictionary) for deflate.
+ */
+export function detectCompression(bytes: Uint8Array): Compression | null {
+  if (bytes.length < 2) return null;
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'gzip';
+  if (bytes[0] === 0x78 && ZLIB_LEVEL_BYTES.has(bytes[1])) {
+    return 'deflate';
+  }
+  return null;
+}
+
+interface DecompressOptions {
+  signal?: AbortSignal;
+  // Reports compressed bytes consumed, out of the compressed size
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Decompress a gzip or deflate buffer with the browser's DecompressionStream,
+ * feeding it in slices so progress can be reported while it runs.
+ */
+export async function decompressWithProgress(
+  bytes: Uint8Array,
+  compression: Compression,
+  { signal, onProgress }: DecompressOptions = {}
+): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress files (DecompressionStream is unavailable).');
+  }
+
+  const total = bytes.length;
+  let consumed = 0;
+  onProgress?.({ loaded: 0, total });
+
+  const input = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    pull(controller) {
+      if (signal?.aborted) {
+        controller.error(signal.reason);
+        return;
+      }
+      if (consumed >= total) {
+        controller.close();
+        return;
+      }
+      const end = Math.min(consumed + INPUT_CHUNK_SIZE, total);
+      controller.enqueue(bytes.slice(consumed, end) as Uint8Array<ArrayBuffer>);
+      consumed = end;
+      onProgress?.({ loaded: consumed, total });
+    },
+  });
+
+  const reader = input.pipeThrough(new DecompressionStream(compression)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      length += value.length;
+    }
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to decompress ${compression} data: ${message}`);
+  }
+  return concatChunks(chunks, length);
+}
@@ -0,0 +1,80 @@
+export interface DownloadProgress {
+  loaded: number;
+  total?: number; // Undefined when the server does not send Content-Length
+}
+
+interface FetchWithProgressOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+  // Called with the expected size before the body is read; aborting the
+  // signal from here cancels the download
+  onResponse?: (total: number | undefined) => void | Promise<void>;
+}
+
+/**
+ * Fetch a URL and stream its body into a single Uint8Array, reporting
+ * byte-level progress while the response arrives.
+ */
+export async function fetchWithProgress(
+  url: string,
+  { signal, onProgress, onResponse }: FetchWithProgressOptions = {}
+): Promise<Uint8Array> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const lengthHeader = response.headers.get('Content-Length');
+  // Content-Length describes the encoded body, so ignore it for compressed transfers
+  const total =
+    lengthHeader && !response.headers.get('Content-Encoding')
+      ? parseInt(lengthHeader, 10)
+      : undefined;
+  await onResponse?.(total);
+  signal?.throwIfAborted();
+
+  // Browsers without streaming bodies: fall back to a single read
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    onProgress?.({ loaded: bytes.length, total: bytes.length });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.({ loaded, total });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.({ loaded, total });
+  }
+
+  // One contiguous buffer for the HDT loader
+  return concatChunks(chunks, loaded);
+}
+
+// Concatenate streamed chunks into one contiguous buffer
+export function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}
+
+// Derive a display file name from the last path segment of a URL
+export function fileNameFromUrl(url: string): string {
+  try {
+    const { pathname } = new URL(url, window.location.href);
+    const lastSegment = pathname.split('/').filter(Boolean).pop();
+    return lastSegment ? decodeURIComponent(lastSegment) : url;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,61 @@
+// Human-readable byte sizes (B / KB / MB / GB)
+export function formatBytes(bytes: number | bigint): string {
+  // Convert BigInt to number if needed
+  const numBytes = typeof bytes === 'bigint' ? Number(bytes) : bytes;
+  if (numBytes < 1024) return `${numBytes} B`;
+  if (numBytes < 1024 * 1024) return `${(numBytes / 1024).toFixed(2)} KB`;
+  if (numBytes < 1024 * 1024 * 1024) return `${(numBytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(numBytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const INTEGER_DATATYPES = new Set(
+  [
+    'integer',
+    'long',
+    'int',
+    'short',
+    'byte',
+    'nonNegativeInteger',
+    'nonPositiveInteger',
+    'positiveInteger',
+    'negativeInteger',
+    'unsignedLong',
+    'unsignedInt',
+    'unsignedShort',
+    'unsignedByte',
+  ].map((name) => `${XSD}${name}`)
+);
+const DECIMAL_DATATYPES = new Set(['decimal', 'double', 'float'].map((name) => `${XSD}${name}`));
+
+// Literal values as a reader expects them: grouped numbers, local dates and
+// canonical booleans. Values that are not valid for their datatype stay as they are.
+export function formatLiteral(value: string, datatype: string): string {
+  const trimmed = value.trim();
+  if (INTEGER_DATATYPES.has(datatype)) {
+    // BigInt keeps integers beyond 2^53 exact
+    return /^[+-]?\d+$/.test(trimmed) ? BigInt(trimmed).toLocaleString() : value;
+  }
+  if (DECIMAL_DATATYPES.has(datatype)) {
+    const number = Number(trimmed);
+    return trimmed !== '' && Number.isFinite(number)
+      ? number.toLocaleString(undefined, { maximumFractionDigits: 20 })
+      : value;
+  }
+  if (datatype === `${XSD}boolean`) {
+    if (trimmed === 'true' || trimmed === '1') return 'true';
+    if (trimmed === 'false' || trimmed === '0') return 'false';
+    return value;
+  }
+  if (datatype === `${XSD}date` && /^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    // A plain date has no time zone, so keep it on the same calendar day
+    const date = new Date(`${trimmed}T00:00:00Z`);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString(undefined, { dateStyle: 'medium', timeZone: 'UTC' });
+  }
+  if (datatype === `${XSD}dateTime` && /^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? value : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' });
+  }
+  return value;
+}
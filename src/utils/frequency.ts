@@ -0,0 +1,17 @@
+// Occurrence counts collected while scanning triples
+
+export interface FrequencyEntry {
+  value: string;
+  count: number;
+}
+
+export function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+// Entries with the highest count first, ties by value
+export function sortedEntries(counts: Map<string, number>): FrequencyEntry[] {
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
@@ -0,0 +1,25 @@
+import factory from '@rdfjs/data-model';
+import type { BlankNode, NamedNode, Term } from '@rdfjs/types';
+
+// Resources are keyed and shown as plain strings: IRIs as they are, blank
+// nodes as "_:" plus their label, which no absolute IRI can start with.
+
+export function resourceKey(term: Pick<Term, 'termType' | 'value'>): string {
+  return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+}
+
+// Distinct key of any term; literals differ by datatype and language too
+export function termKey(term: Term): string {
+  return term.termType === 'Literal'
+    ? `"${term.value}"@${term.language}^^${term.datatype.value}`
+    : resourceKey(term);
+}
+
+export function isBlankNodeKey(key: string): boolean {
+  return key.startsWith('_:');
+}
+
+// The term to query the dataset with for a resource key
+export function resourceTerm(key: string): NamedNode | BlankNode {
+  return isBlankNodeKey(key) ? factory.blankNode(key.slice(2)) : factory.namedNode(key);
+}
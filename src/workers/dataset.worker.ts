@@ -0,0 +1,219 @@
+import { loadHdtDataset } from '@graviola/hdt-rdfjs-dataset';
+import type { Quad, Term } from '@rdfjs/types';
+import { Parser, Store } from 'n3';
+import {
+  deserializeTerm,
+  serializeQuad,
+} from '../services/datasetProtocol';
+import { parseHdtHeader } from '../services/hdtHeader';
+import type { HdtHeaderInfo } from '../services/hdtHeader';
+import { HdtLoadError, classifyHdtLoadError } from '../services/hdtLoadError';
+import { RdfParseError, toRdfParseError } from '../services/rdfParseError';
+import { createScanAccumulator } from '../services/datasetScans';
+import type { ScanAccumulator, ScanKind } from '../services/datasetScans';
+import type { RdfFormat } from '../services/rdfFormats';
+import type {
+  QuadPattern,
+  WorkerRequest,
+  WorkerRequestMessage,
+  WorkerResponseMessage,
+  WorkerResults,
+} from '../services/datasetProtocol';
+
+// The query surface the worker needs from a loaded dataset
+interface QueryableDataset {
+  match(subject: Term | null, predicate: Term | null, object: Term | null): Iterable<Quad>;
+  countMatches(subject: Term | null, predicate: Term | null, object: Term | null): number;
+  sizeInBytes(): number | bigint;
+}
+
+let dataset: QueryableDataset | null = null;
+const cursors = new Map<number, Iterator<Quad>>();
+let nextCursorId = 1;
+
+// Scans in progress: a cursor over all triples and the totals so far
+interface Scan {
+  cursor: Iterator<Quad>;
+  accumulator: ScanAccumulator<ScanKind>;
+  processedTriples: number;
+}
+const scans = new Map<number, Scan>();
+let nextScanId = 1;
+
+function requireDataset(): QueryableDataset {
+  if (!dataset) {
+    throw new Error('No dataset loaded');
+  }
+  return dataset;
+}
+
+// Format names understood by the N3 parser
+const N3_FORMATS: Record<Exclude<RdfFormat, 'hdt'>, string> = {
+  'n-triples': 'N-Triples',
+  turtle: 'Turtle',
+  'n-quads': 'N-Quads',
+};
+
+// Parse a text serialization into an in-memory N3 store
+function loadRdfText(bytes: Uint8Array, format: Exclude<RdfFormat, 'hdt'>): QueryableDataset {
+  const text = new TextDecoder().decode(bytes);
+  let quads: Quad[];
+  try {
+    quads = new Parser({ format: N3_FORMATS[format] }).parse(text);
+  } catch (err) {
+    // Running out of memory is not a syntax error; let it be classified as such
+    if (err instanceof RangeError) throw err;
+    throw toRdfParseError(err, text, format);
+  }
+  const store = new Store(quads);
+  return {
+    match: (subject, predicate, object) => store.readQuads(subject, predicate, object, null),
+    countMatches: (subject, predicate, object) =>
+      store.countQuads(subject, predicate, object, null),
+    // The heap used by the store is not measurable; report the source size
+    sizeInBytes: () => bytes.byteLength,
+  };
+}
+
+function toTerms(pattern: QuadPattern): [Term | null, Term | null, Term | null] {
+  return [
+    pattern.subject ? deserializeTerm(pattern.subject) : null,
+    pattern.predicate ? deserializeTerm(pattern.predicate) : null,
+    pattern.object ? deserializeTerm(pattern.object) : null,
+  ];
+}
+
+async function handleRequest(
+  request: WorkerRequest
+): Promise<WorkerResults[WorkerRequest['type']]> {
+  switch (request.type) {
+    case 'load': {
+      cursors.clear();
+      scans.clear();
+      dataset = null;
+      if (request.format !== 'hdt') {
+        const loaded = loadRdfText(request.bytes, request.format);
+        dataset = loaded;
+        return { sizeInBytes: loaded.sizeInBytes() };
+      }
+      // The header is metadata only; a file without a readable one still loads
+      let header: HdtHeaderInfo | undefined;
+      try {
+        header = parseHdtHeader(request.bytes);
+      } catch (err) {
+        console.warn('Could not read HDT header:', err);
+      }
+      let loaded: QueryableDataset;
+      try {
+        loaded = await loadHdtDataset(request.bytes, { wasmSource: request.wasmSource });
+      } catch (err) {
+        // Only the worker still has the bytes needed for the hex dump
+        throw classifyHdtLoadError(err, request.bytes);
+      }
+      dataset = loaded;
+      return { sizeInBytes: loaded.sizeInBytes(), header };
+    }
+    case 'match': {
+      const offset = request.offset ?? 0;
+      const limit = request.limit ?? Infinity;
+      const quads = [];
+      let index = 0;
+      for (const quad of requireDataset().match(...toTerms(request.pattern))) {
+        if (index++ < offset) continue;
+        if (quads.length >= limit) break;
+        quads.push(serializeQuad(quad));
+      }
+      return quads;
+    }
+    case 'count':
+      return requireDataset().countMatches(...toTerms(request.pattern));
+    case 'countPredicates': {
+      const accumulator = createScanAccumulator('predicates');
+      for (const quad of requireDataset().match(...toTerms(request.pattern))) {
+        accumulator.add(quad);
+      }
+      return accumulator.snapshot();
+    }
+    case 'size':
+      return requireDataset().sizeInBytes();
+    case 'openCursor': {
+      const cursorId = nextCursorId++;
+      const iterable = requireDataset().match(...toTerms(request.pattern));
+      cursors.set(cursorId, iterable[Symbol.iterator]());
+      return cursorId;
+    }
+    case 'nextPage': {
+      const cursor = cursors.get(request.cursorId);
+      if (!cursor) {
+        throw new Error(`Unknown cursor: ${request.cursorId}`);
+      }
+      const quads = [];
+      while (quads.length < request.pageSize) {
+        const next = cursor.next();
+        if (next.done) {
+          cursors.delete(request.cursorId);
+          return { quads, done: true };
+        }
+        quads.push(serializeQuad(next.value));
+      }
+      return { quads, done: false };
+    }
+    case 'closeCursor':
+      cursors.get(request.cursorId)?.return?.();
+      cursors.delete(request.cursorId);
+      return;
+    case 'openScan': {
+      const scanId = nextScanId++;
+      const iterable = requireDataset().match(null, null, null);
+      scans.set(scanId, {
+        cursor: iterable[Symbol.iterator](),
+        accumulator: createScanAccumulator(request.kind),
+        processedTriples: 0,
+      });
+      return scanId;
+    }
+    case 'nextScanPage': {
+      const scan = scans.get(request.scanId);
+      if (!scan) {
+        throw new Error(`Unknown scan: ${request.scanId}`);
+      }
+      let done = false;
+      for (let i = 0; i < request.pageSize; i++) {
+        const next = scan.cursor.next();
+        if (next.done) {
+          done = true;
+          scans.delete(request.scanId);
+          break;
+        }
+        scan.accumulator.add(next.value);
+        scan.processedTriples++;
+      }
+      return { processedTriples: scan.processedTriples, result: scan.accumulator.snapshot(), done };
+    }
+    case 'closeScan':
+      scans.get(request.scanId)?.cursor.return?.();
+      scans.delete(request.scanId);
+      return;
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequestMessage>) => {
+  const { id, request } = event.data;
+  let response: WorkerResponseMessage;
+  try {
+    const result = await handleRequest(request);
+    response = { id, ok: true, result };
+  } catch (err) {
+    response = {
+      id,
+      ok: false,
+      error: {
+        name: err instanceof Error ? err.name : 'Error',
+        message: err instanceof Error ? err.message : String(err),
+        details: err instanceof HdtLoadError ? err.details : undefined,
+        parseDetails: err instanceof RdfParseError ? err.details : undefined,
+      },
+    };
+  }
+  self.postMessage(response);
+});
@@ -18,6 +18,10 @@ export default defineConfig({
     }),
   ],
   assetsInclude: ['**/*.wasm'],
+  // The dataset worker imports the HDT library, which needs ES module output
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['@graviola/hdt-rdfjs-dataset'],
   },